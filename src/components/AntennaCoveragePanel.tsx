@@ -0,0 +1,154 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Progress } from '@/components/ui/progress';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Antenna } from '@/types/plan';
+import {
+  AntennaCoverageSettings,
+  AntennaCoverageStats,
+  AntennaCoverageView,
+  getServerColor,
+  MAX_OVERLAP_LEVEL,
+  OVERLAP_COLORS,
+  UNSERVED_COLOR,
+} from '@/utils/antennaCoverage';
+
+interface AntennaCoveragePanelProps {
+  settings: AntennaCoverageSettings;
+  onChange: (settings: AntennaCoverageSettings) => void;
+  antennas: Antenna[];
+  stats: AntennaCoverageStats | null; // null until computed for the current antennas
+  progress: number | null; // 0..1 while the grid is computed
+  onCancel: () => void;
+}
+
+const VIEW_LABELS: Record<AntennaCoverageView, string> = {
+  bestServer: 'Обслуживающая антенна',
+  overlap: 'Число перекрывающихся антенн',
+};
+
+const OVERLAP_LABELS = ['Нет покрытия', '1 антенна', '2 антенны', '3 антенны', `${MAX_OVERLAP_LEVEL} и более`];
+
+const Swatch: React.FC<{ color: [number, number, number] }> = ({ color }) => (
+  <span className="inline-block w-4 h-4 shrink-0 rounded-sm border" style={{ backgroundColor: `rgb(${color.join()})` }} />
+);
+
+const AntennaCoveragePanel: React.FC<AntennaCoveragePanelProps> = ({
+  settings,
+  onChange,
+  antennas,
+  stats,
+  progress,
+  onCancel,
+}) => {
+  const totalArea = stats
+    ? Object.values(stats.servedArea).reduce((sum, area) => sum + area, stats.unservedArea)
+    : 0;
+  const formatArea = (area: number) =>
+    `${area.toFixed(1)} м² (${totalArea > 0 ? ((area / totalArea) * 100).toFixed(1) : '0.0'}%)`;
+
+  return (
+    <div className="p-4 border rounded-md flex flex-col gap-4">
+      <div className="flex flex-col sm:flex-row gap-2 sm:items-center">
+        <h3 className="text-lg font-semibold mr-auto">Зоны обслуживания антенн</h3>
+        <div className="flex items-center space-x-2">
+          <Checkbox
+            id="showAntennaCoverage"
+            checked={settings.isVisible}
+            onCheckedChange={(checked) => onChange({ ...settings, isVisible: checked === true })}
+          />
+          <Label htmlFor="showAntennaCoverage">Рассчитать и показать на плане</Label>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-[1fr_1fr_auto] gap-4 md:items-end">
+        <div className="flex flex-col gap-2">
+          <Label>Карта</Label>
+          <Select
+            value={settings.view}
+            onValueChange={(view) => onChange({ ...settings, view: view as AntennaCoverageView })}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(VIEW_LABELS).map(([view, label]) => (
+                <SelectItem key={view} value={view}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="flex flex-col gap-2">
+          <Label htmlFor="antennaCoverageThreshold">Порог обслуживания (dBm)</Label>
+          <Input
+            id="antennaCoverageThreshold"
+            type="number"
+            value={settings.threshold}
+            onChange={(e) => onChange({ ...settings, threshold: Number(e.target.value) })}
+            step="any"
+          />
+        </div>
+        <div className="flex items-center space-x-2 md:pb-2">
+          <Checkbox
+            id="showHandoffs"
+            checked={settings.showHandoffs}
+            onCheckedChange={(checked) => onChange({ ...settings, showHandoffs: checked === true })}
+          />
+          <Label htmlFor="showHandoffs">Границы хэндовера</Label>
+        </div>
+      </div>
+
+      {stats && (
+        <>
+          <div className="flex flex-wrap gap-4 text-sm">
+            {OVERLAP_LABELS.map((label, level) => (
+              <div key={label} className="flex items-center gap-2">
+                <Swatch color={OVERLAP_COLORS[level]} />
+                {label}: <span className="font-semibold">{(stats.overlapShares[level] * 100).toFixed(1)}%</span>
+              </div>
+            ))}
+          </div>
+          <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-2 max-h-48 overflow-y-auto">
+            {antennas.map((antenna, index) => (
+              <div key={antenna.id} className="bg-gray-100 dark:bg-gray-800 p-2 rounded-sm text-sm flex items-start gap-2">
+                <Swatch color={getServerColor(index)} />
+                <span>
+                  ID: {antenna.id.substring(0, 12)}... <br />
+                  Обслуживает: {formatArea(stats.servedArea[antenna.id] ?? 0)}
+                </span>
+              </div>
+            ))}
+            <div className="bg-gray-100 dark:bg-gray-800 p-2 rounded-sm text-sm flex items-start gap-2">
+              <Swatch color={UNSERVED_COLOR} />
+              <span>
+                Без покрытия <br />
+                {formatArea(stats.unservedArea)}
+              </span>
+            </div>
+          </div>
+        </>
+      )}
+
+      {progress !== null && (
+        <div className="flex items-center gap-4">
+          <Progress value={progress * 100} className="flex-1" />
+          <span className="text-sm">{Math.round(progress * 100)}%</span>
+          <Button variant="outline" onClick={onCancel}>
+            Отменить расчет
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AntennaCoveragePanel;
@@ -0,0 +1,94 @@
+import React from 'react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Barrier, BARRIER_MATERIAL_ATTENUATION, BarrierMaterial } from '@/types/plan';
+import { barrierMaterial, BARRIER_MATERIAL_COLORS, BARRIER_MATERIAL_LABELS } from '@/utils/barrierMaterials';
+
+type MaterialProps = Pick<Barrier, 'material' | 'attenuation'>;
+
+interface BarrierMaterialsPanelProps {
+  newBarrier: MaterialProps; // Given to barriers drawn from now on
+  onNewBarrierChange: (material: MaterialProps) => void;
+  barriers: Barrier[];
+  onBarrierChange: (id: string, material: MaterialProps) => void;
+}
+
+interface MaterialControlsProps {
+  id: string;
+  value: MaterialProps;
+  onChange: (material: MaterialProps) => void;
+}
+
+// Preset materials take their typical attenuation; only a custom one is entered by hand
+const MaterialControls: React.FC<MaterialControlsProps> = ({ id, value, onChange }) => (
+  <div className="flex gap-2">
+    <Select
+      value={value.material}
+      onValueChange={(material) => onChange(barrierMaterial(material as BarrierMaterial))}
+    >
+      <SelectTrigger className="flex-1">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {Object.entries(BARRIER_MATERIAL_LABELS).map(([material, label]) => (
+          <SelectItem key={material} value={material}>
+            {label} ({BARRIER_MATERIAL_ATTENUATION[material as BarrierMaterial]} dB)
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+    <Input
+      id={id}
+      aria-label="Затухание (dB)"
+      className="w-20"
+      type="number"
+      value={value.attenuation}
+      onChange={(e) => onChange(barrierMaterial('custom', Math.max(0, Number(e.target.value))))}
+      disabled={value.material !== 'custom'}
+      min="0"
+      step="any"
+    />
+  </div>
+);
+
+const BarrierMaterialsPanel: React.FC<BarrierMaterialsPanelProps> = ({
+  newBarrier,
+  onNewBarrierChange,
+  barriers,
+  onBarrierChange,
+}) => (
+  <div className="p-4 border rounded-md flex flex-col gap-4">
+    <h3 className="text-lg font-semibold">Материалы барьеров</h3>
+    <div className="flex flex-col gap-2 max-w-md">
+      <Label htmlFor="newBarrierAttenuation">Материал новых барьеров и затухание при прохождении стены (dB)</Label>
+      <MaterialControls id="newBarrierAttenuation" value={newBarrier} onChange={onNewBarrierChange} />
+    </div>
+    {barriers.length > 0 && (
+      <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 gap-2 max-h-48 overflow-y-auto">
+        {barriers.map((barrier) => (
+          <div
+            key={barrier.id}
+            className="bg-gray-100 dark:bg-gray-800 p-2 rounded-sm text-sm flex flex-col gap-1 border-l-4"
+            style={{ borderLeftColor: BARRIER_MATERIAL_COLORS[barrier.material] }}
+          >
+            ID: {barrier.id.substring(0, 12)}...
+            <MaterialControls
+              id={`attenuation-${barrier.id}`}
+              value={barrier}
+              onChange={(material) => onBarrierChange(barrier.id, material)}
+            />
+          </div>
+        ))}
+      </div>
+    )}
+  </div>
+);
+
+export default BarrierMaterialsPanel;
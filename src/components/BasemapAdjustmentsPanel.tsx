@@ -0,0 +1,56 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { Checkbox } from '@/components/ui/checkbox';
+import { BasemapAdjustments, DEFAULT_BASEMAP_ADJUSTMENTS } from '@/types/plan';
+
+interface BasemapAdjustmentsPanelProps {
+  adjustments: BasemapAdjustments;
+  onChange: (adjustments: BasemapAdjustments) => void;
+}
+
+type PercentAdjustment = Exclude<keyof BasemapAdjustments, 'invert'>;
+
+const PERCENT_CONTROLS: { key: PercentAdjustment; label: string; max: number }[] = [
+  { key: 'opacity', label: 'Непрозрачность', max: 100 },
+  { key: 'grayscale', label: 'Оттенки серого', max: 100 },
+  { key: 'brightness', label: 'Яркость', max: 200 },
+  { key: 'contrast', label: 'Контрастность', max: 200 },
+];
+
+const BasemapAdjustmentsPanel: React.FC<BasemapAdjustmentsPanelProps> = ({ adjustments, onChange }) => (
+  <div className="p-4 border rounded-md flex flex-col gap-4">
+    <div className="flex flex-col sm:flex-row gap-2 sm:items-center">
+      <h3 className="text-lg font-semibold mr-auto">Подложка плана:</h3>
+      <div className="flex items-center space-x-2">
+        <Checkbox
+          id="basemapInvert"
+          checked={adjustments.invert}
+          onCheckedChange={(checked) => onChange({ ...adjustments, invert: Boolean(checked) })}
+        />
+        <Label htmlFor="basemapInvert">Инвертировать цвета</Label>
+      </div>
+      <Button variant="outline" onClick={() => onChange(DEFAULT_BASEMAP_ADJUSTMENTS)}>
+        Сбросить
+      </Button>
+    </div>
+    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+      {PERCENT_CONTROLS.map(({ key, label, max }) => (
+        <div key={key} className="flex flex-col gap-2">
+          <Label htmlFor={`basemap-${key}`}>{label} ({adjustments[key]}%)</Label>
+          <Slider
+            id={`basemap-${key}`}
+            min={0}
+            max={max}
+            step={1}
+            value={[adjustments[key]]}
+            onValueChange={(val) => onChange({ ...adjustments, [key]: val[0] })}
+          />
+        </div>
+      ))}
+    </div>
+  </div>
+);
+
+export default BasemapAdjustmentsPanel;
@@ -0,0 +1,80 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import Feature from 'ol/Feature';
+import { Coordinate } from 'ol/coordinate';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import ReferenceLayerMap from '@/components/ReferenceLayerMap';
+
+interface ControlPointDialogProps {
+  position: Coordinate | null; // Picked point in map coordinates; the dialog is open while set
+  referenceFeatures: Feature[];
+  onClose: () => void;
+  onConfirm: (lonLat: Coordinate) => void;
+}
+
+const ControlPointDialog: React.FC<ControlPointDialogProps> = ({ position, referenceFeatures, onClose, onConfirm }) => {
+  const [lat, setLat] = useState('');
+  const [lon, setLon] = useState('');
+
+  useEffect(() => {
+    if (position) {
+      setLat('');
+      setLon('');
+    }
+  }, [position]);
+
+  const handlePick = useCallback(([pickedLon, pickedLat]: Coordinate) => {
+    setLat(pickedLat.toFixed(8));
+    setLon(pickedLon.toFixed(8));
+  }, []);
+
+  const latValue = Number(lat);
+  const lonValue = Number(lon);
+  const isValid = lat.trim() !== '' && lon.trim() !== ''
+    && Math.abs(latValue) <= 90 && Math.abs(lonValue) <= 180;
+
+  return (
+    <Dialog open={position !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Контрольная точка</DialogTitle>
+          <DialogDescription>
+            {position && `Точка плана (${position[0].toFixed(2)}; ${position[1].toFixed(2)}) м. `}
+            Введите ее географические координаты (WGS84){referenceFeatures.length > 0 && ' или укажите их на опорном слое'}.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div className="flex flex-col gap-2">
+            <Label htmlFor="controlPointLat">Широта (°)</Label>
+            <Input id="controlPointLat" type="number" value={lat} onChange={(e) => setLat(e.target.value)} step="any" />
+          </div>
+          <div className="flex flex-col gap-2">
+            <Label htmlFor="controlPointLon">Долгота (°)</Label>
+            <Input id="controlPointLon" type="number" value={lon} onChange={(e) => setLon(e.target.value)} step="any" />
+          </div>
+        </div>
+
+        {position && referenceFeatures.length > 0 && (
+          <ReferenceLayerMap features={referenceFeatures} onPick={handlePick} />
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Отмена</Button>
+          <Button onClick={() => onConfirm([lonValue, latValue])} disabled={!isValid}>Добавить точку</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ControlPointDialog;
@@ -0,0 +1,170 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Coordinate } from 'ol/coordinate';
+import { Antenna, Beacon } from '@/types/plan';
+import {
+  ColumnMapping,
+  DEVICE_CSV_FIELDS,
+  DeviceKind,
+  guessColumnMapping,
+  importAntennasFromCsv,
+  importBeaconsFromCsv,
+} from '@/utils/deviceCsv';
+
+const NOT_MAPPED = 'none';
+
+interface DeviceCsvImportDialogProps {
+  kind: DeviceKind | null; // The dialog is open while a kind is set
+  rows: string[][]; // Parsed CSV, first row is the header
+  mapWidthMeters: number;
+  mapHeightMeters: number;
+  toMapCoordinate?: (coordinate: Coordinate) => Coordinate; // Converts file coordinates, given in the drawing's system
+  antennaDefaults: { height: number; angle: number; getRange: (height: number) => number };
+  onClose: () => void;
+  onImportBeacons: (beacons: Beacon[], replaceExisting: boolean) => void;
+  onImportAntennas: (antennas: Antenna[], replaceExisting: boolean) => void;
+}
+
+const DeviceCsvImportDialog: React.FC<DeviceCsvImportDialogProps> = ({
+  kind,
+  rows,
+  mapWidthMeters,
+  mapHeightMeters,
+  toMapCoordinate,
+  antennaDefaults,
+  onClose,
+  onImportBeacons,
+  onImportAntennas,
+}) => {
+  const headers = useMemo(() => rows[0] ?? [], [rows]);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [replaceExisting, setReplaceExisting] = useState(false);
+
+  useEffect(() => {
+    if (kind) {
+      setMapping(guessColumnMapping(headers, kind));
+      setReplaceExisting(false);
+    }
+  }, [kind, headers]);
+
+  const result = useMemo(() => {
+    if (!kind || rows.length === 0) return null;
+    const options = { mapWidthMeters, mapHeightMeters, toMapCoordinate };
+    return kind === 'beacon'
+      ? importBeaconsFromCsv(rows, mapping, options)
+      : importAntennasFromCsv(rows, mapping, {
+        ...options,
+        defaultHeight: antennaDefaults.height,
+        defaultAngle: antennaDefaults.angle,
+        getRange: antennaDefaults.getRange,
+      });
+  }, [kind, rows, mapping, mapWidthMeters, mapHeightMeters, toMapCoordinate, antennaDefaults]);
+
+  const fields = kind ? DEVICE_CSV_FIELDS[kind] : [];
+  const isMappingComplete = fields.every(({ field, required }) => !required || mapping[field] != null);
+
+  const handleImport = () => {
+    if (!kind || !result) return;
+    if (kind === 'beacon') {
+      onImportBeacons(result.devices as Beacon[], replaceExisting);
+    } else {
+      onImportAntennas(result.devices as Antenna[], replaceExisting);
+    }
+    onClose();
+  };
+
+  return (
+    <Dialog open={kind !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>{kind === 'antenna' ? 'Импорт антенн из CSV' : 'Импорт маяков из CSV'}</DialogTitle>
+          <DialogDescription>
+            Сопоставьте столбцы файла с параметрами устройств. Несопоставленные столбцы сохранятся как дополнительные атрибуты.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          {fields.map(({ field, label, required }) => (
+            <div key={field} className="flex flex-col gap-2">
+              <Label>{label}{required && ' *'}</Label>
+              <Select
+                value={mapping[field] != null ? String(mapping[field]) : NOT_MAPPED}
+                onValueChange={(value) => setMapping((prev) => ({
+                  ...prev,
+                  [field]: value === NOT_MAPPED ? null : Number(value),
+                }))}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NOT_MAPPED}>— не импортировать —</SelectItem>
+                  {headers.map((header, index) => (
+                    <SelectItem key={index} value={String(index)}>
+                      {header.trim() || `Столбец ${index + 1}`}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex items-center space-x-2">
+          <Checkbox
+            id="csvReplaceExisting"
+            checked={replaceExisting}
+            onCheckedChange={(checked) => setReplaceExisting(Boolean(checked))}
+          />
+          <Label htmlFor="csvReplaceExisting">
+            Заменить все существующие устройства (иначе устройства с совпадающим ID будут обновлены)
+          </Label>
+        </div>
+
+        {result && isMappingComplete && (
+          <div className="text-sm space-y-2">
+            <div>
+              Строк к импорту: <b>{result.devices.length}</b>, с ошибками: <b>{result.errors.length}</b>
+            </div>
+            {result.errors.length > 0 && (
+              <div className="max-h-48 overflow-y-auto border rounded-md p-2 bg-red-50 dark:bg-red-950">
+                {result.errors.map((error, index) => (
+                  <div key={index}>Строка {error.row}: {error.message}</div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Отмена</Button>
+          <Button
+            onClick={handleImport}
+            disabled={!isMappingComplete || !result || result.devices.length === 0}
+          >
+            Импортировать
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default DeviceCsvImportDialog;
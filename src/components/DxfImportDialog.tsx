@@ -0,0 +1,154 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { DXF_UNITS, DxfDrawing, dxfToBasemap } from '@/utils/dxfImport';
+import {
+  countPathsByLayer,
+  DEFAULT_WALL_THICKNESS,
+  pathsToBarriers,
+  VectorPlanImport,
+} from '@/utils/vectorBasemap';
+
+interface DxfImportDialogProps {
+  drawing: DxfDrawing | null; // The dialog is open while a drawing is set
+  onClose: () => void;
+  onImport: (result: VectorPlanImport) => void;
+}
+
+const DxfImportDialog: React.FC<DxfImportDialogProps> = ({ drawing, onClose, onImport }) => {
+  const [unitsCode, setUnitsCode] = useState(4);
+  const [barrierLayers, setBarrierLayers] = useState<string[]>([]);
+  const [wallThickness, setWallThickness] = useState(DEFAULT_WALL_THICKNESS);
+  const [isSolidClosedPaths, setIsSolidClosedPaths] = useState(false);
+
+  useEffect(() => {
+    if (drawing) {
+      // Architectural drawings without $INSUNITS are almost always in millimeters
+      setUnitsCode(drawing.unitsCode ?? 4);
+      // Preselect layers whose names look like walls
+      setBarrierLayers(drawing.layers.filter((layer) => /wall|стен|a-wall/i.test(layer)));
+    }
+  }, [drawing]);
+
+  const metersPerUnit = DXF_UNITS.find((unit) => unit.code === unitsCode)?.meters ?? 1;
+  const converted = useMemo(
+    () => (drawing ? dxfToBasemap(drawing, metersPerUnit) : null),
+    [drawing, metersPerUnit],
+  );
+  const pathCounts = useMemo(() => (drawing ? countPathsByLayer(drawing.paths) : {}), [drawing]);
+
+  const toggleLayer = (layer: string, checked: boolean) => {
+    setBarrierLayers((prev) => (checked ? [...prev, layer] : prev.filter((l) => l !== layer)));
+  };
+
+  const handleImport = () => {
+    if (!converted) return;
+    onImport({
+      ...converted,
+      barriers: pathsToBarriers(
+        converted.basemap.paths.filter((path) => barrierLayers.includes(path.layer)),
+        wallThickness,
+        `barrier-dxf-${Date.now()}`,
+        isSolidClosedPaths,
+      ),
+    });
+    onClose();
+  };
+
+  return (
+    <Dialog open={drawing !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Импорт чертежа DXF</DialogTitle>
+          <DialogDescription>
+            Чертеж будет показан как векторная подложка. Объекты выбранных слоев станут барьерами.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div className="flex flex-col gap-2">
+            <Label>Единицы чертежа{drawing?.unitsCode == null && ' (не указаны в файле)'}</Label>
+            <Select value={String(unitsCode)} onValueChange={(value) => setUnitsCode(Number(value))}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {DXF_UNITS.map((unit) => (
+                  <SelectItem key={unit.code} value={String(unit.code)}>{unit.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex flex-col gap-2">
+            <Label htmlFor="dxfWallThickness">Толщина стен из линий (метры)</Label>
+            <Input
+              id="dxfWallThickness"
+              type="number"
+              value={wallThickness}
+              onChange={(e) => setWallThickness(Number(e.target.value))}
+              min="0.01"
+              step="0.05"
+            />
+          </div>
+        </div>
+
+        {converted && (
+          <div className="text-sm">
+            Размер карты: <b>{converted.width.toFixed(2)} × {converted.height.toFixed(2)} м</b>
+          </div>
+        )}
+
+        <div className="flex items-center space-x-2">
+          <Checkbox
+            id="dxfSolidClosedPaths"
+            checked={isSolidClosedPaths}
+            onCheckedChange={(checked) => setIsSolidClosedPaths(checked === true)}
+          />
+          <Label htmlFor="dxfSolidClosedPaths">
+            Замкнутые контуры — сплошные препятствия (колонны, шахты), а не стены по периметру
+          </Label>
+        </div>
+
+        <div className="flex flex-col gap-2">
+          <Label>Слои, превращаемые в барьеры</Label>
+          <div className="max-h-60 overflow-y-auto border rounded-md p-2 grid grid-cols-1 sm:grid-cols-2 gap-2">
+            {drawing?.layers.map((layer) => (
+              <div key={layer} className="flex items-center space-x-2">
+                <Checkbox
+                  id={`dxfLayer-${layer}`}
+                  checked={barrierLayers.includes(layer)}
+                  onCheckedChange={(checked) => toggleLayer(layer, Boolean(checked))}
+                />
+                <Label htmlFor={`dxfLayer-${layer}`}>{layer} ({pathCounts[layer] ?? 0})</Label>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Отмена</Button>
+          <Button onClick={handleImport} disabled={!converted || wallThickness <= 0}>Импортировать</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default DxfImportDialog;
@@ -0,0 +1,108 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Floor } from '@/types/plan';
+import { FloorCounts, getBuildingCounts, getFloorCounts } from '@/utils/building';
+
+interface FloorSwitcherProps {
+  floors: Floor[]; // Ordered by elevation, including the current state of the active floor
+  activeFloorId: string;
+  onSelect: (floorId: string) => void;
+  onAdd: () => void;
+  onChange: (floorId: string, changes: Partial<Pick<Floor, 'name' | 'elevation'>>) => void;
+  onDelete: (floorId: string) => void;
+}
+
+const formatCounts = (counts: FloorCounts) =>
+  `маяков: ${counts.beacons} · антенн: ${counts.antennas} · барьеров: ${counts.barriers}`;
+
+const FloorSwitcher: React.FC<FloorSwitcherProps> = ({ floors, activeFloorId, onSelect, onAdd, onChange, onDelete }) => {
+  const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
+  const activeFloor = floors.find((floor) => floor.id === activeFloorId);
+
+  return (
+    <div className="p-4 border rounded-md flex flex-col gap-4">
+      <div className="flex flex-col sm:flex-row gap-2 sm:items-center">
+        <h3 className="text-lg font-semibold mr-auto">Этажи здания</h3>
+        <span className="text-sm text-gray-500 dark:text-gray-400">
+          Всего в здании — {formatCounts(getBuildingCounts(floors))}
+        </span>
+      </div>
+
+      {/* Upper floors first, as in a section of the building */}
+      <div className="flex flex-col gap-2">
+        {[...floors].reverse().map((floor) => (
+          <Button
+            key={floor.id}
+            variant={floor.id === activeFloorId ? 'default' : 'outline'}
+            className="h-auto justify-between gap-4 py-2"
+            onClick={() => onSelect(floor.id)}
+          >
+            <span className="font-semibold">
+              {floor.name} <span className="font-normal opacity-70">({floor.elevation} м)</span>
+            </span>
+            <span className="text-xs font-normal">{formatCounts(getFloorCounts(floor))}</span>
+          </Button>
+        ))}
+      </div>
+
+      {activeFloor && (
+        <div className="grid grid-cols-1 sm:grid-cols-[1fr_1fr_auto_auto] gap-4 sm:items-end">
+          <div className="flex flex-col gap-2">
+            <Label htmlFor="floorName">Название этажа</Label>
+            <Input
+              id="floorName"
+              value={activeFloor.name}
+              onChange={(e) => onChange(activeFloor.id, { name: e.target.value })}
+            />
+          </div>
+          <div className="flex flex-col gap-2">
+            <Label htmlFor="floorElevation">Отметка пола (м)</Label>
+            <Input
+              id="floorElevation"
+              type="number"
+              value={activeFloor.elevation}
+              onChange={(e) => onChange(activeFloor.id, { elevation: Number(e.target.value) })}
+              step="any"
+            />
+          </div>
+          <Button variant="outline" onClick={onAdd}>
+            Добавить этаж
+          </Button>
+          <Button variant="destructive" onClick={() => setIsDeleteDialogOpen(true)} disabled={floors.length < 2}>
+            Удалить этаж
+          </Button>
+        </div>
+      )}
+
+      <AlertDialog open={isDeleteDialogOpen} onOpenChange={setIsDeleteDialogOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Удалить этаж?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Этаж «{activeFloor?.name}» будет удален вместе с планом, маяками, антеннами и барьерами.
+              Это действие нельзя отменить.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Отмена</AlertDialogCancel>
+            <AlertDialogAction onClick={() => activeFloor && onDelete(activeFloor.id)}>Удалить</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default FloorSwitcher;
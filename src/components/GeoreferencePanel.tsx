@@ -0,0 +1,116 @@
+import React, { useRef } from 'react';
+import { Coordinate } from 'ol/coordinate';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { ControlPointGeoreference } from '@/types/plan';
+import { GeoTransformFit, MIN_CONTROL_POINTS } from '@/utils/georeference';
+
+interface GeoreferencePanelProps {
+  georeference: ControlPointGeoreference;
+  fit: GeoTransformFit | null;
+  referenceFeatureCount: number;
+  formatPosition: (position: Coordinate) => string;
+  onChange: (georeference: ControlPointGeoreference | null) => void;
+  onLoadReferenceLayer: (file: File) => void;
+}
+
+const METHOD_LABELS: Record<ControlPointGeoreference['method'], string> = {
+  similarity: 'Подобие (сдвиг, поворот, масштаб)',
+  affine: 'Аффинное (с учетом перекоса)',
+};
+
+const GeoreferencePanel: React.FC<GeoreferencePanelProps> = ({
+  georeference,
+  fit,
+  referenceFeatureCount,
+  formatPosition,
+  onChange,
+  onLoadReferenceLayer,
+}) => {
+  const referenceFileInputRef = useRef<HTMLInputElement>(null);
+  const { controlPoints } = georeference;
+
+  const handleReferenceFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (file) onLoadReferenceLayer(file);
+  };
+
+  return (
+    <div className="p-4 border rounded-md flex flex-col gap-4">
+      <div className="flex flex-col sm:flex-row gap-4 sm:items-end">
+        <h3 className="text-lg font-semibold mr-auto">Геопривязка по контрольным точкам</h3>
+        <div className="flex flex-col gap-2">
+          <Label>Преобразование</Label>
+          <Select
+            value={georeference.method}
+            onValueChange={(method) => onChange({ ...georeference, method: method as ControlPointGeoreference['method'] })}
+          >
+            <SelectTrigger className="w-72">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(METHOD_LABELS).map(([method, label]) => (
+                <SelectItem key={method} value={method}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <Button variant="outline" onClick={() => referenceFileInputRef.current?.click()}>
+          {referenceFeatureCount > 0 ? `Опорный слой: ${referenceFeatureCount} объектов` : 'Загрузить опорный слой'}
+        </Button>
+        <Button variant="outline" onClick={() => onChange(null)}>
+          Удалить привязку
+        </Button>
+        <input
+          ref={referenceFileInputRef}
+          type="file"
+          accept=".geojson,.json,application/geo+json,application/json"
+          className="hidden"
+          onChange={handleReferenceFileChange}
+        />
+      </div>
+
+      <div className="text-sm">
+        {fit ? (
+          <>Привязка рассчитана, среднеквадратичная ошибка: <b>{fit.rmsError.toFixed(2)} м</b></>
+        ) : (
+          <span className="text-gray-500 dark:text-gray-400">
+            Отметьте на плане не менее {MIN_CONTROL_POINTS} точек, не лежащих на одной прямой
+            (сейчас {controlPoints.length}).
+          </span>
+        )}
+      </div>
+
+      {controlPoints.length > 0 && (
+        <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-2 max-h-48 overflow-y-auto">
+          {controlPoints.map((point, index) => (
+            <div key={point.id} className="bg-gray-100 dark:bg-gray-800 p-2 rounded-sm text-sm flex justify-between gap-2">
+              <div>
+                Точка {index + 1}: {formatPosition(point.position)} <br />
+                {point.lonLat[1].toFixed(7)}°, {point.lonLat[0].toFixed(7)}°
+                {fit && <><br />Отклонение: {fit.residuals[index].toFixed(2)} м</>}
+              </div>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => onChange({ ...georeference, controlPoints: controlPoints.filter((p) => p.id !== point.id) })}
+              >
+                ✕
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default GeoreferencePanel;
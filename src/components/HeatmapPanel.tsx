@@ -0,0 +1,169 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Progress } from '@/components/ui/progress';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Antenna, Beacon } from '@/types/plan';
+import { DeviceKind } from '@/utils/deviceCsv';
+import { getHeatmapBands, HeatmapSettings } from '@/utils/heatmap';
+
+interface HeatmapPanelProps {
+  settings: HeatmapSettings;
+  onChange: (settings: HeatmapSettings) => void;
+  beacons: Beacon[];
+  antennas: Antenna[];
+  progress: number | null; // 0..1 while the grid is computed
+  onCancel: () => void;
+  cellSize: number | null; // meters of the grid shown, coarser than requested on large plans
+}
+
+const ALL_DEVICES = 'all';
+
+const SOURCE_LABELS: Record<DeviceKind, string> = {
+  beacon: 'Сильнейший из маяков',
+  antenna: 'Сильнейшая из антенн',
+};
+
+const formatBand = (min: number | null, max: number | null) => {
+  if (min === null) return `< ${max} dBm`;
+  if (max === null) return `≥ ${min} dBm`;
+  return `${min} … ${max} dBm`;
+};
+
+const HeatmapPanel: React.FC<HeatmapPanelProps> = ({
+  settings,
+  onChange,
+  beacons,
+  antennas,
+  progress,
+  onCancel,
+  cellSize,
+}) => {
+  const devices = settings.kind === 'beacon' ? beacons : antennas;
+
+  return (
+    <div className="p-4 border rounded-md flex flex-col gap-4">
+      <div className="flex flex-col sm:flex-row gap-2 sm:items-center">
+        <h3 className="text-lg font-semibold mr-auto">Тепловая карта RSSI</h3>
+        <div className="flex items-center space-x-2">
+          <Checkbox
+            id="showHeatmap"
+            checked={settings.isVisible}
+            onCheckedChange={(checked) => onChange({ ...settings, isVisible: checked === true })}
+          />
+          <Label htmlFor="showHeatmap">Показать на плане</Label>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="flex flex-col gap-2">
+          <Label>Источник сигнала</Label>
+          <div className="flex gap-2">
+            <Select
+              value={settings.kind}
+              onValueChange={(kind) => onChange({ ...settings, kind: kind as DeviceKind, deviceId: null })}
+            >
+              <SelectTrigger className="w-32">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="beacon">Маяки</SelectItem>
+                <SelectItem value="antenna">Антенны</SelectItem>
+              </SelectContent>
+            </Select>
+            <Select
+              value={settings.deviceId ?? ALL_DEVICES}
+              onValueChange={(id) => onChange({ ...settings, deviceId: id === ALL_DEVICES ? null : id })}
+            >
+              <SelectTrigger className="flex-1">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_DEVICES}>{SOURCE_LABELS[settings.kind]}</SelectItem>
+                {devices.map((device) => (
+                  <SelectItem key={device.id} value={device.id}>{device.id}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+        <div className="flex flex-col gap-2">
+          <Label htmlFor="heatmapCellSize">
+            Размер ячейки (м){cellSize !== null && cellSize > settings.cellSize && `, на этом плане ${cellSize.toFixed(2)} м`}
+          </Label>
+          <Input
+            id="heatmapCellSize"
+            type="number"
+            value={settings.cellSize}
+            onChange={(e) => {
+              const size = Number(e.target.value);
+              if (size > 0) onChange({ ...settings, cellSize: size });
+            }}
+            min="0.1"
+            step="0.1"
+          />
+        </div>
+        <div className="flex flex-col gap-2">
+          <Label htmlFor="heatmapOpacity">Непрозрачность ({settings.opacity}%)</Label>
+          <Slider
+            id="heatmapOpacity"
+            min={0}
+            max={100}
+            step={1}
+            value={[settings.opacity]}
+            onValueChange={(val) => onChange({ ...settings, opacity: val[0] })}
+          />
+        </div>
+      </div>
+
+      <div className="flex flex-col gap-2">
+        <Label>Пороги (dBm)</Label>
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+          {settings.thresholds.map((threshold, index) => (
+            <Input
+              key={index}
+              aria-label={`Порог ${index + 1} (dBm)`}
+              type="number"
+              value={threshold}
+              onChange={(e) => onChange({
+                ...settings,
+                thresholds: settings.thresholds.map((value, i) => (i === index ? Number(e.target.value) : value)),
+              })}
+              step="any"
+            />
+          ))}
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-4 text-sm">
+        {getHeatmapBands(settings.thresholds).map(({ color, min, max }) => (
+          <div key={color.join()} className="flex items-center gap-2">
+            <span className="inline-block w-4 h-4 rounded-sm border" style={{ backgroundColor: `rgb(${color.join()})` }} />
+            {formatBand(min, max)}
+          </div>
+        ))}
+      </div>
+
+      {progress !== null && (
+        <div className="flex items-center gap-4">
+          <Progress value={progress * 100} className="flex-1" />
+          <span className="text-sm">{Math.round(progress * 100)}%</span>
+          <Button variant="outline" onClick={onCancel}>
+            Отменить расчет
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default HeatmapPanel;
@@ -0,0 +1,174 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { ImdfAddress, ImdfExportOptions, isValidImdfAddress } from '@/utils/imdfExport';
+
+interface ImdfExportDialogProps {
+  open: boolean;
+  defaultOptions: ImdfExportOptions;
+  isGeoreferenced?: boolean; // The plan has a control-point georeference, so no origin is asked for
+  onClose: () => void;
+  onExport: (options: ImdfExportOptions) => void;
+}
+
+const ImdfExportDialog: React.FC<ImdfExportDialogProps> = ({
+  open,
+  defaultOptions,
+  isGeoreferenced = false,
+  onClose,
+  onExport,
+}) => {
+  const [options, setOptions] = useState(defaultOptions);
+
+  useEffect(() => {
+    if (open) {
+      setOptions(defaultOptions);
+    }
+  }, [open, defaultOptions]);
+
+  const { georeference } = options;
+  const isValid = options.venueName.trim() !== ''
+    && options.levelName.trim() !== ''
+    && isValidImdfAddress(options.address)
+    && Math.abs(georeference.originLat) <= 90
+    && Math.abs(georeference.originLon) <= 180;
+
+  const setGeoreference = (key: keyof ImdfExportOptions['georeference'], value: number) => {
+    setOptions((prev) => ({ ...prev, georeference: { ...prev.georeference, [key]: value } }));
+  };
+
+  const setAddress = (key: keyof ImdfAddress, value: string) => {
+    setOptions((prev) => ({ ...prev, address: { ...prev.address, [key]: value } }));
+  };
+
+  const handleExport = () => {
+    onExport({ ...options, venueName: options.venueName.trim(), levelName: options.levelName.trim() });
+    onClose();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Экспорт в IMDF</DialogTitle>
+          <DialogDescription>
+            {isGeoreferenced
+              ? 'Координаты объектов будут рассчитаны по контрольным точкам геопривязки плана.'
+              : 'Укажите, где на местности находится левый нижний угол плана (точка 0, 0) и куда направлена ось Y плана.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div className="flex flex-col gap-2">
+            <Label htmlFor="imdfVenueName">Название объекта</Label>
+            <Input
+              id="imdfVenueName"
+              value={options.venueName}
+              onChange={(e) => setOptions((prev) => ({ ...prev, venueName: e.target.value }))}
+            />
+          </div>
+          <div className="flex flex-col gap-2">
+            <Label htmlFor="imdfLevelName">Этаж</Label>
+            <Input
+              id="imdfLevelName"
+              value={options.levelName}
+              onChange={(e) => setOptions((prev) => ({ ...prev, levelName: e.target.value }))}
+            />
+          </div>
+          <div className="flex flex-col gap-2 sm:col-span-2">
+            <Label htmlFor="imdfAddress">Адрес (улица, дом)</Label>
+            <Input
+              id="imdfAddress"
+              value={options.address.address}
+              onChange={(e) => setAddress('address', e.target.value)}
+            />
+          </div>
+          <div className="flex flex-col gap-2">
+            <Label htmlFor="imdfLocality">Населенный пункт</Label>
+            <Input
+              id="imdfLocality"
+              value={options.address.locality}
+              onChange={(e) => setAddress('locality', e.target.value)}
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="flex flex-col gap-2">
+              <Label htmlFor="imdfCountry">Код страны</Label>
+              <Input
+                id="imdfCountry"
+                value={options.address.country}
+                onChange={(e) => setAddress('country', e.target.value.toUpperCase())}
+                maxLength={2}
+                placeholder="RU"
+              />
+            </div>
+            <div className="flex flex-col gap-2">
+              <Label htmlFor="imdfPostalCode">Индекс</Label>
+              <Input
+                id="imdfPostalCode"
+                value={options.address.postalCode}
+                onChange={(e) => setAddress('postalCode', e.target.value)}
+              />
+            </div>
+          </div>
+          {!isGeoreferenced && (
+            <>
+              <div className="flex flex-col gap-2">
+                <Label htmlFor="imdfOriginLat">Широта левого нижнего угла плана (°)</Label>
+                <Input
+                  id="imdfOriginLat"
+                  type="number"
+                  value={georeference.originLat}
+                  onChange={(e) => setGeoreference('originLat', Number(e.target.value))}
+                  min="-90"
+                  max="90"
+                  step="any"
+                />
+              </div>
+              <div className="flex flex-col gap-2">
+                <Label htmlFor="imdfOriginLon">Долгота левого нижнего угла плана (°)</Label>
+                <Input
+                  id="imdfOriginLon"
+                  type="number"
+                  value={georeference.originLon}
+                  onChange={(e) => setGeoreference('originLon', Number(e.target.value))}
+                  min="-180"
+                  max="180"
+                  step="any"
+                />
+              </div>
+              <div className="flex flex-col gap-2">
+                <Label htmlFor="imdfBearing">Азимут оси Y плана (° от севера по часовой)</Label>
+                <Input
+                  id="imdfBearing"
+                  type="number"
+                  value={georeference.bearing}
+                  onChange={(e) => setGeoreference('bearing', Number(e.target.value))}
+                  min="-360"
+                  max="360"
+                  step="any"
+                />
+              </div>
+            </>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Отмена</Button>
+          <Button onClick={handleExport} disabled={!isValid}>Экспортировать</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ImdfExportDialog;
@@ -0,0 +1,82 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+
+interface InstallationReportDialogProps {
+  open: boolean;
+  defaultProjectName: string;
+  defaultFloorName: string;
+  onClose: () => void;
+  onGenerate: (projectName: string, floorName: string) => Promise<void>;
+}
+
+const InstallationReportDialog: React.FC<InstallationReportDialogProps> = ({
+  open,
+  defaultProjectName,
+  defaultFloorName,
+  onClose,
+  onGenerate,
+}) => {
+  const [projectName, setProjectName] = useState(defaultProjectName);
+  const [floorName, setFloorName] = useState(defaultFloorName);
+  const [isGenerating, setIsGenerating] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setProjectName(defaultProjectName);
+      setFloorName(defaultFloorName);
+    }
+  }, [open, defaultProjectName, defaultFloorName]);
+
+  const handleGenerate = async () => {
+    setIsGenerating(true);
+    try {
+      await onGenerate(projectName.trim(), floorName.trim());
+      onClose();
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Отчет по размещению в PDF</DialogTitle>
+          <DialogDescription>
+            Отчет включает титульный лист, план с видимыми слоями, таблицы маяков и антенн и параметры авто-расстановки.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-col gap-4">
+          <div className="flex flex-col gap-2">
+            <Label htmlFor="reportProjectName">Название проекта</Label>
+            <Input id="reportProjectName" value={projectName} onChange={(e) => setProjectName(e.target.value)} />
+          </div>
+          <div className="flex flex-col gap-2">
+            <Label htmlFor="reportFloorName">Этаж</Label>
+            <Input id="reportFloorName" value={floorName} onChange={(e) => setFloorName(e.target.value)} />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Отмена</Button>
+          <Button onClick={handleGenerate} disabled={!projectName.trim() || !floorName.trim() || isGenerating}>
+            {isGenerating ? 'Формирование...' : 'Сформировать'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default InstallationReportDialog;
@@ -0,0 +1,118 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Progress } from '@/components/ui/progress';
+import { InterFloorAnalysis, InterFloorSettings } from '@/utils/interFloor';
+
+interface InterFloorPanelProps {
+  settings: InterFloorSettings;
+  onSettingsChange: (settings: InterFloorSettings) => void;
+  analysis: InterFloorAnalysis | null; // null until computed for the floor
+  progress: number | null; // 0..1 while the analysis runs
+  onCancel: () => void;
+  floorName: string;
+  floorArea: number; // square meters of the analyzed floor plan
+  isOverlayVisible: boolean;
+  onOverlayVisibleChange: (isVisible: boolean) => void;
+}
+
+const DEVICE_KIND_LABELS: Record<InterFloorAnalysis['devices'][number]['kind'], string> = {
+  beacon: 'Маяк',
+  antenna: 'Антенна',
+};
+
+const InterFloorPanel: React.FC<InterFloorPanelProps> = ({
+  settings,
+  onSettingsChange,
+  analysis,
+  progress,
+  onCancel,
+  floorName,
+  floorArea,
+  isOverlayVisible,
+  onOverlayVisibleChange,
+}) => {
+  const wrongFloorShare = analysis && analysis.sampledCells > 0
+    ? analysis.wrongFloorCells.length / analysis.sampledCells
+    : 0;
+
+  return (
+    <div className="p-4 border rounded-md flex flex-col gap-4">
+      <h3 className="text-lg font-semibold">Проникновение сигнала между этажами</h3>
+      <div className="grid grid-cols-1 sm:grid-cols-[1fr_1fr_auto] gap-4 sm:items-end">
+        <div className="flex flex-col gap-2">
+          <Label htmlFor="slabAttenuation">Затухание в перекрытии (dB)</Label>
+          <Input
+            id="slabAttenuation"
+            type="number"
+            value={settings.slabAttenuation}
+            onChange={(e) => onSettingsChange({ ...settings, slabAttenuation: Math.max(0, Number(e.target.value)) })}
+            min="0"
+            step="any"
+          />
+        </div>
+        <div className="flex flex-col gap-2">
+          <Label htmlFor="interFloorThreshold">Порог слышимости (dBm)</Label>
+          <Input
+            id="interFloorThreshold"
+            type="number"
+            value={settings.threshold}
+            onChange={(e) => onSettingsChange({ ...settings, threshold: Number(e.target.value) })}
+            step="any"
+          />
+        </div>
+        <div className="flex items-center space-x-2 sm:pb-2">
+          <Checkbox
+            id="showInterFloor"
+            checked={isOverlayVisible}
+            onCheckedChange={(checked) => onOverlayVisibleChange(checked === true)}
+          />
+          <Label htmlFor="showInterFloor">Показать на плане</Label>
+        </div>
+      </div>
+
+      {analysis && (analysis.devices.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          На этаже «{floorName}» не слышно устройств соседних этажей выше порога {settings.threshold} dBm.
+        </p>
+      ) : (
+        <>
+          <p className="text-sm">
+            Сильнейший сигнал приходит с другого этажа на площади{' '}
+            <span className="font-semibold">
+              {(wrongFloorShare * floorArea).toFixed(1)} м² ({(wrongFloorShare * 100).toFixed(1)}%)
+            </span>{' '}
+            этажа «{floorName}». Такие места отмечены на плане красным.
+          </p>
+          <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-2 max-h-48 overflow-y-auto">
+            {analysis.devices.map((device) => (
+              <div
+                key={`${device.floorId}/${device.kind}/${device.id}`}
+                className="bg-gray-100 dark:bg-gray-800 p-2 rounded-sm text-sm"
+              >
+                {DEVICE_KIND_LABELS[device.kind]} {device.id.substring(0, 8)}... <br />
+                Этаж: {device.floorName} <br />
+                Макс. RSSI: {device.peakRssi.toFixed(1)} dBm <br />
+                Слышен в радиусе: {device.footprintRadius.toFixed(1)}м
+              </div>
+            ))}
+          </div>
+        </>
+      ))}
+
+      {progress !== null && (
+        <div className="flex items-center gap-4">
+          <Progress value={progress * 100} className="flex-1" />
+          <span className="text-sm">{Math.round(progress * 100)}%</span>
+          <Button variant="outline" onClick={onCancel}>
+            Отменить расчет
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default InterFloorPanel;
@@ -0,0 +1,79 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Progress } from '@/components/ui/progress';
+import { K_COVERAGE_COLORS, KCoverageSettings, TRILATERATION_BEACONS } from '@/utils/kCoverage';
+
+interface KCoveragePanelProps {
+  settings: KCoverageSettings;
+  onChange: (settings: KCoverageSettings) => void;
+  shares: number[] | null; // Of the floor area outside barriers per level; null until computed
+  progress: number | null; // 0..1 while the grid is computed
+  onCancel: () => void;
+}
+
+const LEVEL_LABELS = ['Нет маяков', '1 маяк', '2 маяка', `${TRILATERATION_BEACONS} маяка и более`];
+
+const formatShare = (share: number) => `${(share * 100).toFixed(1)}%`;
+
+const KCoveragePanel: React.FC<KCoveragePanelProps> = ({ settings, onChange, shares, progress, onCancel }) => (
+  <div className="p-4 border rounded-md flex flex-col gap-4">
+    <h3 className="text-lg font-semibold">Готовность к трилатерации</h3>
+    <div className="grid grid-cols-1 sm:grid-cols-[1fr_auto] gap-4 sm:items-end">
+      <div className="flex flex-col gap-2">
+        <Label htmlFor="kCoverageThreshold">Минимальный RSSI для позиционирования (dBm)</Label>
+        <Input
+          id="kCoverageThreshold"
+          type="number"
+          value={settings.threshold}
+          onChange={(e) => onChange({ ...settings, threshold: Number(e.target.value) })}
+          step="any"
+        />
+      </div>
+      <div className="flex items-center space-x-2 sm:pb-2">
+        <Checkbox
+          id="showKCoverage"
+          checked={settings.isVisible}
+          onCheckedChange={(checked) => onChange({ ...settings, isVisible: checked === true })}
+        />
+        <Label htmlFor="showKCoverage">Рассчитать и показать на плане</Label>
+      </div>
+    </div>
+
+    {shares && (
+      <>
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+          {LEVEL_LABELS.map((label, level) => (
+            <div key={label} className="bg-gray-100 dark:bg-gray-800 p-2 rounded-sm text-sm flex items-center gap-2">
+              <span
+                className="inline-block w-4 h-4 rounded-sm border"
+                style={{ backgroundColor: `rgb(${K_COVERAGE_COLORS[level].join()})` }}
+              />
+              <span>
+                {label}: <span className="font-semibold">{formatShare(shares[level])}</span>
+              </span>
+            </div>
+          ))}
+        </div>
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          Доли площади этажа без барьеров, где слышно указанное число маяков не слабее {settings.threshold} dBm.
+          Позиционирование возможно на {formatShare(shares[TRILATERATION_BEACONS])} площади.
+        </p>
+      </>
+    )}
+
+    {progress !== null && (
+      <div className="flex items-center gap-4">
+        <Progress value={progress * 100} className="flex-1" />
+        <span className="text-sm">{Math.round(progress * 100)}%</span>
+        <Button variant="outline" onClick={onCancel}>
+          Отменить расчет
+        </Button>
+      </div>
+    )}
+  </div>
+);
+
+export default KCoveragePanel;
@@ -1,14 +1,16 @@
-import React, { useRef, useEffect, useState, useCallback } from 'react';
+import React, { useRef, useEffect, useState, useCallback, useMemo } from 'react';
 import { Map, View } from 'ol';
 import ImageLayer from 'ol/layer/Image';
 import ImageStatic from 'ol/source/ImageStatic';
-import { get as getProjection } from 'ol/proj';
-import { getCenter } from 'ol/extent';
+import LayerGroup from 'ol/layer/Group';
+import MousePosition from 'ol/control/MousePosition';
+import { Extent, getCenter } from 'ol/extent';
 import VectorLayer from 'ol/layer/Vector';
 import VectorSource from 'ol/source/Vector';
 import Feature from 'ol/Feature';
 import Point from 'ol/geom/Point';
 import Polygon from 'ol/geom/Polygon';
+import MultiPolygon from 'ol/geom/MultiPolygon';
 import Circle from 'ol/geom/Circle';
 import Style from 'ol/style/Style';
 import Icon from 'ol/style/Icon';
@@ -22,61 +24,279 @@ import { Slider } from '@/components/ui/slider';
 import { Checkbox } from '@/components/ui/checkbox';
 import { showSuccess, showError } from '@/utils/toast';
 import { Draw, Modify, Snap } from 'ol/interaction';
-
-interface Beacon {
-  id: string;
-  position: Coordinate; // [x, y] in map coordinates (meters)
-  rssi?: number;
-}
-
-interface Antenna {
-  id: string;
-  position: Coordinate; // [x, y] in map coordinates (meters)
-  height: number; // Height of installation in meters
-  angle: number; // Angle of algorithm operation (degrees)
-  range: number; // Coverage radius in meters
-}
+import LineString from 'ol/geom/LineString';
+import { createBox } from 'ol/interaction/Draw';
+import RenderEvent from 'ol/render/Event';
+import BaseLayer from 'ol/layer/Base';
+import Layer from 'ol/layer/Layer';
+import {
+  Antenna,
+  Barrier,
+  BarrierMaterial,
+  BasemapAdjustments,
+  Beacon,
+  ControlPointGeoreference,
+  CoordinateSystem,
+  DEFAULT_BARRIER_MATERIAL,
+  DEFAULT_BASEMAP_ADJUSTMENTS,
+  DEFAULT_COORDINATE_SYSTEM,
+  DEFAULT_GEOREFERENCE,
+  DEFAULT_PLACEMENT_SETTINGS,
+  DEFAULT_PLAN_ORIENTATION,
+  PlacementSettings,
+  PlanOrientation,
+  PropagationModel,
+  VectorBasemap,
+} from '@/types/plan';
+import DeviceCsvImportDialog from '@/components/DeviceCsvImportDialog';
+import { parseCsv } from '@/utils/csv';
+import { antennasToCsv, beaconsToCsv, DeviceKind, mergeImportedDevices } from '@/utils/deviceCsv';
+import { downloadBlob, downloadText, readFileAsText } from '@/utils/download';
+import { GeoJsonImportError, geoJsonToPlan, planToGeoJson } from '@/utils/geojson';
+import { captureMap, drawNorthArrow, drawScaleBar } from '@/utils/mapCapture';
+import { createInstallationReportPdf } from '@/utils/installationReport';
+import { planToSvg } from '@/utils/svgExport';
+import { createImdfArchive, DEFAULT_IMDF_ADDRESS, ImdfExportOptions } from '@/utils/imdfExport';
+import ImdfExportDialog from '@/components/ImdfExportDialog';
+import ScaleCalibrationDialog from '@/components/ScaleCalibrationDialog';
+import { CalibratedExtent, calibrateExtent } from '@/utils/calibration';
+import { loadImageBlob, toPortableImageSrc } from '@/utils/image';
+import { createTiledBasemapLayer, prepareTilePyramid, readImageSize } from '@/utils/tiledBasemap';
+import { getTileStore } from '@/utils/tileStore';
+import {
+  createPlanProjection,
+  describeCoordinateSystem,
+  fromDrawingCoordinate,
+  toDrawingCoordinate,
+} from '@/utils/localProjection';
+import {
+  applyGeoTransform,
+  fitGeoTransform,
+  getGeoTransformBearing,
+  getScreenNorthAngle,
+} from '@/utils/georeference';
+import GeoreferencePanel from '@/components/GeoreferencePanel';
+import ControlPointDialog from '@/components/ControlPointDialog';
+import GeoJSON from 'ol/format/GeoJSON';
+import CircleStyle from 'ol/style/Circle';
+import Text from 'ol/style/Text';
+import NorthArrow from '@/components/NorthArrow';
+import { DEFAULT_FLOOR_LEVEL, FloorLevel } from '@/utils/building';
+import InstallationReportDialog from '@/components/InstallationReportDialog';
+import { InterFloorAnalysis } from '@/utils/interFloor';
+import BasemapAdjustmentsPanel from '@/components/BasemapAdjustmentsPanel';
+import { getBasemapFilter } from '@/utils/basemapAdjustments';
+import {
+  antennaToTransmitter,
+  beaconToTransmitter,
+  BEACON_MOUNT_HEIGHT,
+  getAntennaRange,
+  getBeaconRange,
+  getBeaconRssiAt1m,
+  getCoverageOutline,
+  getGridStep,
+  withTxPower,
+} from '@/utils/propagation';
+import { barrierMaterial, BARRIER_MATERIAL_COLORS } from '@/utils/barrierMaterials';
+import { PlacementArea, placeWithWalls } from '@/utils/autoPlacement';
+import BarrierMaterialsPanel from '@/components/BarrierMaterialsPanel';
+import HeatmapPanel from '@/components/HeatmapPanel';
+import { DEFAULT_HEATMAP_SETTINGS, getHeatmapCellColor, HeatmapSettings } from '@/utils/heatmap';
+import { SignalGridRequest } from '@/utils/signalGrid';
+import { createGridImageSource } from '@/utils/gridImage';
+import { useSignalGrid } from '@/hooks/use-signal-grid';
+import KCoveragePanel from '@/components/KCoveragePanel';
+import {
+  DEFAULT_K_COVERAGE_SETTINGS,
+  getKCoverageCellColor,
+  getKCoverageShares,
+  K_COVERAGE_CELL_SIZE,
+  KCoverageSettings,
+} from '@/utils/kCoverage';
+import AntennaCoveragePanel from '@/components/AntennaCoveragePanel';
+import {
+  ANTENNA_COVERAGE_CELL_SIZE,
+  AntennaCoverageSettings,
+  DEFAULT_ANTENNA_COVERAGE_SETTINGS,
+  getAntennaCoverageStats,
+  getBestServerCellColor,
+  getHandoffBoundaries,
+  getOverlapCellColor,
+} from '@/utils/antennaCoverage';
+import MultiLineString from 'ol/geom/MultiLineString';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
 
 interface MapDisplayProps {
-  mapImageSrc: string;
+  mapImageSrc: string | null;
+  vectorBasemap?: VectorBasemap | null; // Rendered instead of the image for plans imported from drawings
   mapWidthMeters: number;
   mapHeightMeters: number;
   onBeaconsChange: (beacons: Beacon[]) => void;
+  onAntennasChange: (antennas: Antenna[]) => void;
+  onBarriersChange: (barriers: Barrier[]) => void;
+  onSettingsChange: (settings: PlacementSettings) => void;
   initialBeacons?: Beacon[];
+  initialAntennas?: Antenna[];
+  initialBarriers?: Barrier[];
+  initialSettings?: PlacementSettings;
+  projectName?: string; // Used as the default title of exported reports
+  onCalibrate?: (extent: CalibratedExtent) => void; // The parent rescales the plan and remounts the map
+  initialCalibrationMode?: boolean;
+  coordinateSystem?: CoordinateSystem; // Used for coordinates shown to the user and exchanged in CSV
+  georeference?: ControlPointGeoreference | null;
+  onGeoreferenceChange?: (georeference: ControlPointGeoreference | null) => void;
+  orientation?: PlanOrientation;
+  onOrientationChange?: (orientation: PlanOrientation) => void; // Called when the view is rotated on the map
+  floor?: FloorLevel; // The floor shown, named in exports
+  interFloorAnalysis?: InterFloorAnalysis | null; // Devices of other floors heard here, drawn when set
+  basemapAdjustments?: BasemapAdjustments;
+  onBasemapAdjustmentsChange?: (adjustments: BasemapAdjustments) => void;
+  onCrop?: (extent: Extent) => void; // The parent trims the plan image and remounts the map
 }
 
+const featureToBarrier = (feature: Feature): Barrier => ({
+  id: String(feature.getId()),
+  coordinates: (feature.getGeometry() as Polygon).getCoordinates(),
+  ...barrierMaterial(feature.get('material'), feature.get('attenuation')),
+});
+
+// One style per material, shared by all barriers made of it
+const BARRIER_STYLES = Object.fromEntries(
+  Object.entries(BARRIER_MATERIAL_COLORS).map(([material, color]) => [material, new Style({
+    fill: new Fill({ color: `${color}4d` }),
+    stroke: new Stroke({ color, width: 2 }),
+  })]),
+) as Record<BarrierMaterial, Style>;
+
+const createBarrierFeature = (barrier: Barrier) => {
+  const feature = new Feature({
+    geometry: new Polygon(barrier.coordinates),
+    material: barrier.material,
+    attenuation: barrier.attenuation,
+  });
+  feature.setId(barrier.id);
+  feature.setStyle(BARRIER_STYLES[barrier.material]);
+  return feature;
+};
+
 const MapDisplay: React.FC<MapDisplayProps> = ({
   mapImageSrc,
+  vectorBasemap = null,
   mapWidthMeters,
   mapHeightMeters,
   onBeaconsChange,
+  onAntennasChange,
+  onBarriersChange,
+  onSettingsChange,
   initialBeacons = [],
+  initialAntennas = [],
+  initialBarriers = [],
+  initialSettings = DEFAULT_PLACEMENT_SETTINGS,
+  projectName = 'План',
+  onCalibrate,
+  initialCalibrationMode = false,
+  coordinateSystem = DEFAULT_COORDINATE_SYSTEM,
+  georeference = null,
+  onGeoreferenceChange,
+  orientation = DEFAULT_PLAN_ORIENTATION,
+  onOrientationChange,
+  floor = DEFAULT_FLOOR_LEVEL,
+  interFloorAnalysis = null,
+  basemapAdjustments = DEFAULT_BASEMAP_ADJUSTMENTS,
+  onBasemapAdjustmentsChange,
+  onCrop,
 }) => {
   const mapRef = useRef<HTMLDivElement>(null);
   const [mapInstance, setMapInstance] = useState<Map | null>(null);
   const [beacons, setBeacons] = useState<Beacon[]>(initialBeacons);
-  const [antennas, setAntennas] = useState<Antenna[]>([]);
+  const [antennas, setAntennas] = useState<Antenna[]>(initialAntennas);
+  const [barriers, setBarriers] = useState<Barrier[]>(initialBarriers); // Mirror of the barrier layer
 
   const [isManualBeaconPlacementMode, setIsManualBeaconPlacementMode] = useState(false);
   const [isManualAntennaPlacementMode, setIsManualAntennaPlacementMode] = useState(false);
   const [isDrawingBarrierMode, setIsDrawingBarrierMode] = useState(false);
+  const [newBarrier, setNewBarrier] = useState(barrierMaterial(DEFAULT_BARRIER_MATERIAL));
+  const [isCalibrationMode, setIsCalibrationMode] = useState(initialCalibrationMode);
+  const [calibrationPoints, setCalibrationPoints] = useState<[Coordinate, Coordinate] | null>(null);
+  const [isGeoreferenceMode, setIsGeoreferenceMode] = useState(false);
+  const [isCropMode, setIsCropMode] = useState(false);
+  const [pendingCropExtent, setPendingCropExtent] = useState<Extent | null>(null);
+  const [pendingControlPoint, setPendingControlPoint] = useState<Coordinate | null>(null);
+  const [referenceFeatures, setReferenceFeatures] = useState<Feature[]>([]);
+  const [tilingProgress, setTilingProgress] = useState<number | null>(null); // 0..1 while a large image is sliced
+  const [heatmapSettings, setHeatmapSettings] = useState<HeatmapSettings>(DEFAULT_HEATMAP_SETTINGS);
+  const [kCoverageSettings, setKCoverageSettings] = useState<KCoverageSettings>(DEFAULT_K_COVERAGE_SETTINGS);
+  const [antennaCoverageSettings, setAntennaCoverageSettings] = useState<AntennaCoverageSettings>(
+    DEFAULT_ANTENNA_COVERAGE_SETTINGS,
+  );
 
-  const [autoRssi, setAutoRssi] = useState(70);
-  const [autoBeaconStep, setAutoBeaconStep] = useState(5);
+  const [autoRssi, setAutoRssi] = useState(initialSettings.autoRssi);
+  const [propagation, setPropagation] = useState<PropagationModel>(initialSettings.propagation);
 
-  const [autoAntennaHeight, setAutoAntennaHeight] = useState(2);
-  const [autoAntennaAngle, setAutoAntennaAngle] = useState(0);
+  const [autoAntennaHeight, setAutoAntennaHeight] = useState(initialSettings.autoAntennaHeight);
+  const [autoAntennaAngle, setAutoAntennaAngle] = useState(initialSettings.autoAntennaAngle);
 
   // State for layer visibility
   const [showBeacons, setShowBeacons] = useState(true);
   const [showAntennas, setShowAntennas] = useState(true);
   const [showBarriers, setShowBarriers] = useState(true);
 
-  const calculatedAntennaRange = Math.max(
-    10, // Default to 10m if calculation yields less
-    5 + (autoAntennaHeight * 2) + (autoAntennaAngle / 360 * 5) // Example calculation
+  const calculatedBeaconRange = getBeaconRange(propagation, autoRssi);
+  const calculatedBeaconStep = getGridStep(calculatedBeaconRange);
+  const calculatedAntennaRange = getAntennaRange(propagation, autoAntennaHeight);
+  const calculatedAntennaStep = getGridStep(calculatedAntennaRange);
+
+  // CSV import: the kind chosen by the user and the parsed rows of the picked file
+  const csvFileInputRef = useRef<HTMLInputElement>(null);
+  const geoJsonFileInputRef = useRef<HTMLInputElement>(null);
+  const [csvImportTarget, setCsvImportTarget] = useState<DeviceKind>('beacon');
+  const [csvImportKind, setCsvImportKind] = useState<DeviceKind | null>(null);
+  const [csvRows, setCsvRows] = useState<string[][]>([]);
+  const [isReportDialogOpen, setIsReportDialogOpen] = useState(false);
+  const [isImdfDialogOpen, setIsImdfDialogOpen] = useState(false);
+  const [imdfOptions, setImdfOptions] = useState<ImdfExportOptions>({
+    venueName: projectName,
+    levelName: floor.name,
+    address: DEFAULT_IMDF_ADDRESS,
+    georeference: { ...DEFAULT_GEOREFERENCE, bearing: orientation.northBearing },
+  });
+  const toDrawing = useCallback(
+    (coordinate: Coordinate) =>
+      toDrawingCoordinate(coordinateSystem, { width: mapWidthMeters, height: mapHeightMeters }, coordinate),
+    [coordinateSystem, mapWidthMeters, mapHeightMeters],
   );
-  const calculatedAntennaStep = calculatedAntennaRange * 0.75;
+  const fromDrawing = useCallback(
+    (coordinate: Coordinate) =>
+      fromDrawingCoordinate(coordinateSystem, { width: mapWidthMeters, height: mapHeightMeters }, coordinate),
+    [coordinateSystem, mapWidthMeters, mapHeightMeters],
+  );
+  const formatPosition = (position: Coordinate) => {
+    const [x, y] = toDrawing(position);
+    return `(${x.toFixed(2)}м, ${y.toFixed(2)}м)`;
+  };
+  const geoFit = useMemo(() => (georeference ? fitGeoTransform(georeference) : null), [georeference]);
+  // Map coordinates to [longitude, latitude]; undefined until the plan is georeferenced
+  const toLonLat = useMemo(
+    () => (geoFit ? (position: Coordinate) => applyGeoTransform(geoFit.transform, position) : undefined),
+    [geoFit],
+  );
+  // Georeferenced plans take the bearing of their y axis from the control points
+  const northBearing = geoFit ? getGeoTransformBearing(geoFit.transform) : orientation.northBearing;
+  const formatLonLat = ([lon, lat]: Coordinate) => `${lat.toFixed(7)}°, ${lon.toFixed(7)}°`;
+  const antennaCsvDefaults = useMemo(() => ({
+    height: autoAntennaHeight,
+    angle: autoAntennaAngle,
+    getRange: (height: number) => getAntennaRange(propagation, height),
+  }), [autoAntennaHeight, autoAntennaAngle, propagation]);
 
   const beaconVectorSource = useRef(new VectorSource({ features: [] }));
   const beaconVectorLayer = useRef(new VectorLayer({ source: beaconVectorSource.current }));
@@ -87,23 +307,77 @@ const MapDisplay: React.FC<MapDisplayProps> = ({
   const barrierVectorSource = useRef(new VectorSource({ features: [] }));
   const barrierVectorLayer = useRef(new VectorLayer({ source: barrierVectorSource.current }));
 
+  // Filled asynchronously, since large images first have to be cut into tiles
+  const rasterBasemapGroup = useRef(new LayerGroup());
+  const basemapLayer = useRef<BaseLayer | null>(null);
+  // Read while rendering, so changed adjustments only need a re-render, and baked into exported images
+  const basemapFilter = useRef(getBasemapFilter(basemapAdjustments));
+  const applyBasemapFilter = useCallback((event: RenderEvent) => {
+    (event.context as CanvasRenderingContext2D).filter = basemapFilter.current;
+  }, []);
+  const resetBasemapFilter = useCallback((event: RenderEvent) => {
+    (event.context as CanvasRenderingContext2D).filter = 'none';
+  }, []);
+
+  const heatmapLayer = useRef(new ImageLayer<ImageStatic>());
+  const kCoverageLayer = useRef(new ImageLayer<ImageStatic>({ opacity: 0.5 }));
+  const antennaCoverageLayer = useRef(new ImageLayer<ImageStatic>({ opacity: 0.5 }));
+  const handoffVectorSource = useRef(new VectorSource({ features: [] }));
+  const handoffVectorLayer = useRef(new VectorLayer({
+    source: handoffVectorSource.current,
+    style: new Style({ stroke: new Stroke({ color: 'rgba(17, 24, 39, 0.8)', width: 2 }) }),
+  }));
+
+  const interFloorVectorSource = useRef(new VectorSource({ features: [] }));
+  const interFloorVectorLayer = useRef(new VectorLayer({ source: interFloorVectorSource.current }));
+
+  const controlPointVectorSource = useRef(new VectorSource({ features: [] }));
+  const controlPointVectorLayer = useRef(new VectorLayer({ source: controlPointVectorSource.current }));
+
+  const calibrationVectorSource = useRef(new VectorSource({ features: [] }));
+  const calibrationVectorLayer = useRef(new VectorLayer({
+    source: calibrationVectorSource.current,
+    style: new Style({ stroke: new Stroke({ color: 'orange', width: 3, lineDash: [8, 6] }) }),
+  }));
+
   const drawInteraction = useRef<Draw | null>(null);
   const modifyInteraction = useRef<Modify | null>(null);
   const snapInteraction = useRef<Snap | null>(null);
 
-  const beaconStyle = new Style({
-    image: new Icon({
-      anchor: [0.5, 1],
-      src: 'data:image/svg+xml;utf8,<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="red" width="24px" height="24px"><path d="M12 2C8.13 2 5 5.13 5 9c0 5.25 7 13 7 13s7-7.75 7-13c0-3.87-3.13-7-7-7zm0 9.5c-1.38 0-2.5-1.12-2.5-2.5S10.62 6.5 12 6.5s2.5 1.12 2.5 2.5S13.38 11.5 12 11.5z"/></svg>',
-      scale: 1.5,
-    }),
-  });
+  const getBeaconStyle = useCallback((feature: Feature) => {
+    const outline = feature.get('outline');
+    const position = (feature.getGeometry() as Point | undefined)?.getCoordinates();
+
+    if (!position || outline === undefined) {
+      return new Style();
+    }
+
+    return [
+      new Style({
+        image: new Icon({
+          anchor: [0.5, 1],
+          src: 'data:image/svg+xml;utf8,<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="red" width="24px" height="24px"><path d="M12 2C8.13 2 5 5.13 5 9c0 5.25 7 13 7 13s7-7.75 7-13c0-3.87-3.13-7-7-7zm0 9.5c-1.38 0-2.5-1.12-2.5-2.5S10.62 6.5 12 6.5s2.5 1.12 2.5 2.5S13.38 11.5 12 11.5z"/></svg>',
+          scale: 1.5,
+        }),
+      }),
+      new Style({
+        geometry: new Polygon([outline]),
+        fill: new Fill({
+          color: 'rgba(255, 0, 0, 0.05)',
+        }),
+        stroke: new Stroke({
+          color: 'rgba(255, 0, 0, 0.5)',
+          width: 1,
+        }),
+      }),
+    ];
+  }, []);
 
   const getAntennaStyle = useCallback((feature: Feature) => {
-    const range = feature.get('range');
+    const outline = feature.get('outline');
     const position = feature.getGeometry()?.getCoordinates();
 
-    if (!position || range === undefined) {
+    if (!position || outline === undefined) {
       return new Style();
     }
 
@@ -116,7 +390,7 @@ const MapDisplay: React.FC<MapDisplayProps> = ({
         }),
       }),
       new Style({
-        geometry: new Circle(position, range),
+        geometry: new Polygon([outline]),
         fill: new Fill({
           color: 'rgba(0, 0, 255, 0.1)',
         }),
@@ -128,44 +402,54 @@ const MapDisplay: React.FC<MapDisplayProps> = ({
     ];
   }, []);
 
-  const barrierStyle = new Style({
-    fill: new Fill({
-      color: 'rgba(255, 0, 0, 0.3)',
-    }),
-    stroke: new Stroke({
-      color: 'red',
-      width: 2,
-    }),
-  });
-
   useEffect(() => {
     if (!mapRef.current) return;
 
     const extent = [0, 0, mapWidthMeters, mapHeightMeters];
-    const projection = getProjection('EPSG:3857');
+    const projection = createPlanProjection(mapWidthMeters, mapHeightMeters);
 
-    const imageLayer = new ImageLayer({
-      source: new ImageStatic({
-        url: mapImageSrc,
-        imageExtent: extent,
-        projection: projection,
-      }),
-      style: new Style({
-        stroke: new Stroke({
-          color: 'rgba(0, 0, 0, 0.5)',
-          width: 2,
+    const basemap = mapImageSrc
+      ? rasterBasemapGroup.current
+      : new VectorLayer({
+        source: new VectorSource({
+          features: (vectorBasemap?.paths ?? []).map((path) => {
+            const coordinates = path.closed ? [...path.coordinates, path.coordinates[0]] : path.coordinates;
+            const feature = new Feature({ geometry: new LineString(coordinates), layer: path.layer });
+            feature.setStyle(new Style({
+              stroke: new Stroke({ color: path.color ?? '#333333', width: 1 }),
+            }));
+            return feature;
+          }),
         }),
-      }),
-    });
+      });
+    if (basemap instanceof VectorLayer) {
+      basemap.on('prerender', applyBasemapFilter);
+      basemap.on('postrender', resetBasemapFilter);
+    }
+    basemapLayer.current = basemap;
 
     const initialMap = new Map({
       target: mapRef.current,
-      layers: [imageLayer, beaconVectorLayer.current, antennaVectorLayer.current, barrierVectorLayer.current],
+      layers: [
+        basemap,
+        heatmapLayer.current,
+        kCoverageLayer.current,
+        antennaCoverageLayer.current,
+        handoffVectorLayer.current,
+        interFloorVectorLayer.current,
+        beaconVectorLayer.current,
+        antennaVectorLayer.current,
+        barrierVectorLayer.current,
+        controlPointVectorLayer.current,
+        calibrationVectorLayer.current,
+      ],
       view: new View({
+        projection,
         center: getCenter(extent),
         extent: extent,
         zoom: 0,
         showFullExtent: true,
+        constrainRotation: false, // Keep small stored angles instead of snapping them to zero
       }),
     });
 
@@ -174,7 +458,97 @@ const MapDisplay: React.FC<MapDisplayProps> = ({
     return () => {
       initialMap.setTarget(undefined);
     };
-  }, [mapImageSrc, mapWidthMeters, mapHeightMeters]);
+  }, [mapImageSrc, vectorBasemap, mapWidthMeters, mapHeightMeters, applyBasemapFilter, resetBasemapFilter]);
+
+  // Large images are shown from a tile pyramid sliced in a worker, smaller ones as a single static image.
+  // The worker also tells which is which, so the image is not decoded on the main thread.
+  useEffect(() => {
+    if (!mapInstance || !mapImageSrc) return;
+    const layers = rasterBasemapGroup.current.getLayers();
+    const extent = [0, 0, mapWidthMeters, mapHeightMeters];
+    const projection = mapInstance.getView().getProjection();
+    const controller = new AbortController();
+
+    const addLayer = (layer: Layer) => {
+      layer.on('prerender', applyBasemapFilter);
+      layer.on('postrender', resetBasemapFilter);
+      layers.push(layer);
+    };
+
+    const addBasemap = async () => {
+      const image = await loadImageBlob(mapImageSrc);
+      const store = getTileStore();
+      const pyramid = await prepareTilePyramid(image, store, setTilingProgress, controller.signal);
+      setTilingProgress(null);
+      if (!pyramid) {
+        addLayer(new ImageLayer({
+          source: new ImageStatic({ url: mapImageSrc, imageExtent: extent, projection }),
+        }));
+        return;
+      }
+      addLayer(createTiledBasemapLayer(pyramid, store, extent, projection));
+    };
+    addBasemap().catch((error) => {
+      if (controller.signal.aborted) return;
+      console.error('Ошибка при подготовке изображения плана:', error);
+      showError('Не удалось подготовить изображение плана к показу.');
+      setTilingProgress(null);
+    });
+
+    return () => {
+      controller.abort();
+      layers.clear();
+    };
+  }, [mapInstance, mapImageSrc, mapWidthMeters, mapHeightMeters, applyBasemapFilter, resetBasemapFilter]);
+
+  useEffect(() => {
+    if (!mapInstance) return;
+    basemapFilter.current = getBasemapFilter(basemapAdjustments);
+    basemapLayer.current?.setOpacity(basemapAdjustments.opacity / 100);
+    mapInstance.render();
+  }, [mapInstance, basemapAdjustments]);
+
+  useEffect(() => {
+    if (!mapInstance) return;
+    const mousePosition = new MousePosition({
+      coordinateFormat: (coordinate) => {
+        if (!coordinate) return '';
+        const [x, y] = toDrawing(coordinate);
+        return `X: ${x.toFixed(2)} м, Y: ${y.toFixed(2)} м`;
+      },
+      className: 'absolute bottom-2 right-2 rounded-sm bg-white/80 px-2 py-1 text-xs text-gray-800',
+    });
+    mapInstance.addControl(mousePosition);
+    return () => {
+      mapInstance.removeControl(mousePosition);
+    };
+  }, [mapInstance, toDrawing]);
+
+  useEffect(() => {
+    if (!mapInstance) return;
+    const view = mapInstance.getView();
+    const rotation = (orientation.rotation * Math.PI) / 180;
+    if (Math.abs(view.getRotation() - rotation) > 1e-6) {
+      view.setRotation(rotation);
+    }
+  }, [mapInstance, orientation.rotation]);
+
+  // Rotating with Alt+Shift+drag updates the stored angle
+  useEffect(() => {
+    if (!mapInstance || !onOrientationChange) return;
+    const view = mapInstance.getView();
+    const handleRotationChange = () => {
+      const degrees = (((view.getRotation() * 180) / Math.PI) % 360 + 360) % 360;
+      const rotation = Number(degrees.toFixed(2));
+      if (Math.abs(rotation - orientation.rotation) > 0.005) {
+        onOrientationChange({ ...orientation, rotation });
+      }
+    };
+    view.on('change:rotation', handleRotationChange);
+    return () => {
+      view.un('change:rotation', handleRotationChange);
+    };
+  }, [mapInstance, orientation, onOrientationChange]);
 
   // Effect to update layer visibility
   useEffect(() => {
@@ -191,12 +565,27 @@ const MapDisplay: React.FC<MapDisplayProps> = ({
       const feature = new Feature({
         geometry: new Point(beacon.position),
         id: beacon.id,
+        range: getBeaconRange(propagation, beacon.rssi),
+        // Coverage bounded by the walls around, drawn instead of the free-space circle
+        outline: getCoverageOutline(propagation, beaconToTransmitter(propagation, beacon), barriers),
       });
-      feature.setStyle(beaconStyle);
+      feature.setStyle(getBeaconStyle(feature));
       beaconVectorSource.current.addFeature(feature);
     });
     onBeaconsChange(beacons);
-  }, [beacons, onBeaconsChange]);
+  }, [beacons, barriers, propagation, getBeaconStyle, onBeaconsChange]);
+
+  // Antenna ranges follow the propagation model and the mounting height of each antenna. Imports and
+  // placement already derive them; this catches model changes and ranges stored by older versions.
+  useEffect(() => {
+    setAntennas((prev) => {
+      const next = prev.map((antenna) => {
+        const range = getAntennaRange(propagation, antenna.height);
+        return Math.abs(range - antenna.range) > 1e-6 ? { ...antenna, range } : antenna;
+      });
+      return next.some((antenna, index) => antenna !== prev[index]) ? next : prev;
+    });
+  }, [propagation]);
 
   useEffect(() => {
     antennaVectorSource.current.clear();
@@ -207,11 +596,268 @@ const MapDisplay: React.FC<MapDisplayProps> = ({
         height: antenna.height,
         angle: antenna.angle,
         range: antenna.range,
+        outline: getCoverageOutline(propagation, antennaToTransmitter(propagation, antenna), barriers),
       });
       feature.setStyle(getAntennaStyle(feature));
       antennaVectorSource.current.addFeature(feature);
     });
-  }, [antennas, getAntennaStyle]);
+    onAntennasChange(antennas);
+  }, [antennas, barriers, propagation, getAntennaStyle, onAntennasChange]);
+
+  const {
+    isVisible: isHeatmapVisible,
+    kind: heatmapKind,
+    deviceId: heatmapDeviceId,
+    cellSize: heatmapCellSize,
+    thresholds: heatmapThresholds,
+    opacity: heatmapOpacity,
+  } = heatmapSettings;
+
+  // A removed device falls back to the strongest signal of its kind
+  useEffect(() => {
+    const devices: { id: string }[] = heatmapKind === 'beacon' ? beacons : antennas;
+    if (heatmapDeviceId !== null && !devices.some((device) => device.id === heatmapDeviceId)) {
+      setHeatmapSettings((prev) => ({ ...prev, deviceId: null }));
+    }
+  }, [beacons, antennas, heatmapKind, heatmapDeviceId]);
+
+  const heatmapRequest = useMemo((): SignalGridRequest | null => {
+    if (!isHeatmapVisible) return null;
+    const transmitters = heatmapKind === 'beacon'
+      ? beacons
+        .filter((beacon) => heatmapDeviceId === null || beacon.id === heatmapDeviceId)
+        .map((beacon) => beaconToTransmitter(propagation, beacon))
+      : antennas
+        .filter((antenna) => heatmapDeviceId === null || antenna.id === heatmapDeviceId)
+        .map((antenna) => antennaToTransmitter(propagation, antenna));
+    return {
+      width: mapWidthMeters,
+      height: mapHeightMeters,
+      cellSize: heatmapCellSize,
+      model: propagation,
+      transmitters,
+      walls: barriers,
+    };
+  }, [
+    isHeatmapVisible,
+    heatmapKind,
+    heatmapDeviceId,
+    heatmapCellSize,
+    beacons,
+    antennas,
+    barriers,
+    propagation,
+    mapWidthMeters,
+    mapHeightMeters,
+  ]);
+  const heatmap = useSignalGrid(heatmapRequest);
+
+  const handleCancelHeatmap = () => {
+    heatmap.cancel();
+    showSuccess('Расчет тепловой карты отменен. Показан предыдущий результат.');
+  };
+
+  // Thresholds only recolour the computed grid
+  useEffect(() => {
+    if (!mapInstance) return;
+    heatmapLayer.current.setSource(heatmap.grid && createGridImageSource(
+      heatmap.grid,
+      getHeatmapCellColor(heatmap.grid, heatmapThresholds),
+      mapInstance.getView().getProjection(),
+    ));
+  }, [mapInstance, heatmap.grid, heatmapThresholds]);
+
+  useEffect(() => {
+    heatmapLayer.current.setVisible(isHeatmapVisible);
+    heatmapLayer.current.setOpacity(heatmapOpacity / 100);
+  }, [isHeatmapVisible, heatmapOpacity]);
+
+  const kCoverageRequest = useMemo((): SignalGridRequest | null => (kCoverageSettings.isVisible ? {
+    width: mapWidthMeters,
+    height: mapHeightMeters,
+    cellSize: K_COVERAGE_CELL_SIZE,
+    model: propagation,
+    transmitters: beacons.map((beacon) => beaconToTransmitter(propagation, beacon)),
+    walls: barriers,
+    countThreshold: kCoverageSettings.threshold,
+  } : null), [kCoverageSettings, beacons, barriers, propagation, mapWidthMeters, mapHeightMeters]);
+  const kCoverage = useSignalGrid(kCoverageRequest);
+  const kCoverageShares = useMemo(() => kCoverage.grid && getKCoverageShares(kCoverage.grid), [kCoverage.grid]);
+
+  useEffect(() => {
+    if (!mapInstance) return;
+    kCoverageLayer.current.setSource(kCoverage.grid && createGridImageSource(
+      kCoverage.grid,
+      getKCoverageCellColor(kCoverage.grid),
+      mapInstance.getView().getProjection(),
+    ));
+  }, [mapInstance, kCoverage.grid]);
+
+  useEffect(() => {
+    kCoverageLayer.current.setVisible(kCoverageSettings.isVisible);
+  }, [kCoverageSettings.isVisible]);
+
+  const {
+    isVisible: isAntennaCoverageVisible,
+    view: antennaCoverageView,
+    threshold: antennaCoverageThreshold,
+    showHandoffs,
+  } = antennaCoverageSettings;
+
+  // Overlap is counted at the serving threshold, so the grid answers both maps and the statistics
+  const antennaCoverageRequest = useMemo((): SignalGridRequest | null => (isAntennaCoverageVisible ? {
+    width: mapWidthMeters,
+    height: mapHeightMeters,
+    cellSize: ANTENNA_COVERAGE_CELL_SIZE,
+    model: propagation,
+    transmitters: antennas.map((antenna) => antennaToTransmitter(propagation, antenna)),
+    transmitterIds: antennas.map((antenna) => antenna.id),
+    walls: barriers,
+    countThreshold: antennaCoverageThreshold,
+  } : null), [
+    isAntennaCoverageVisible,
+    antennaCoverageThreshold,
+    antennas,
+    barriers,
+    propagation,
+    mapWidthMeters,
+    mapHeightMeters,
+  ]);
+  const antennaCoverage = useSignalGrid(antennaCoverageRequest);
+  // A grid still computed for an earlier set of antennas would credit areas to the wrong ones
+  const antennaCoverageStats = useMemo(() => {
+    const grid = antennaCoverage.grid;
+    const isCurrent = grid
+      && grid.transmitterIds.length === antennas.length
+      && grid.transmitterIds.every((id, index) => id === antennas[index].id);
+    return isCurrent ? getAntennaCoverageStats(grid, antennaCoverageThreshold) : null;
+  }, [antennaCoverage.grid, antennaCoverageThreshold, antennas]);
+
+  useEffect(() => {
+    if (!mapInstance) return;
+    const grid = antennaCoverage.grid;
+    antennaCoverageLayer.current.setSource(grid && createGridImageSource(
+      grid,
+      antennaCoverageView === 'bestServer'
+        ? getBestServerCellColor(grid, antennaCoverageThreshold)
+        : getOverlapCellColor(grid),
+      mapInstance.getView().getProjection(),
+    ));
+    handoffVectorSource.current.clear();
+    if (grid) {
+      handoffVectorSource.current.addFeature(new Feature({
+        geometry: new MultiLineString(getHandoffBoundaries(grid, antennaCoverageThreshold)),
+      }));
+    }
+  }, [mapInstance, antennaCoverage.grid, antennaCoverageView, antennaCoverageThreshold]);
+
+  useEffect(() => {
+    antennaCoverageLayer.current.setVisible(isAntennaCoverageVisible);
+    handoffVectorLayer.current.setVisible(isAntennaCoverageVisible && showHandoffs);
+  }, [isAntennaCoverageVisible, showHandoffs]);
+
+  // Setting the style fires 'changefeature', which reports the new material like any other edit
+  const handleBarrierMaterialChange = (id: string, material: Pick<Barrier, 'material' | 'attenuation'>) => {
+    const feature = barrierVectorSource.current.getFeatureById(id);
+    if (!feature) return;
+    feature.setProperties(material);
+    feature.setStyle(BARRIER_STYLES[material.material]);
+  };
+
+  // Seed the barrier layer once with the barriers of a loaded project; later edits live in the source
+  const isBarrierLayerSeeded = useRef(false);
+  useEffect(() => {
+    if (isBarrierLayerSeeded.current) return;
+    isBarrierLayerSeeded.current = true;
+    barrierVectorSource.current.addFeatures(initialBarriers.map(createBarrierFeature));
+  }, [initialBarriers]);
+
+  // Barriers live only in the vector source, so report every change made by Draw/Modify
+  useEffect(() => {
+    const source = barrierVectorSource.current;
+    const emitBarriers = () => {
+      const next = source.getFeatures().map(featureToBarrier);
+      setBarriers(next);
+      onBarriersChange(next);
+    };
+    source.on(['addfeature', 'removefeature', 'changefeature'], emitBarriers);
+    return () => {
+      source.un(['addfeature', 'removefeature', 'changefeature'], emitBarriers);
+    };
+  }, [onBarriersChange]);
+
+  useEffect(() => {
+    onSettingsChange({ autoRssi, autoAntennaHeight, autoAntennaAngle, propagation });
+  }, [autoRssi, autoAntennaHeight, autoAntennaAngle, propagation, onSettingsChange]);
+
+  useEffect(() => {
+    controlPointVectorSource.current.clear();
+    (georeference?.controlPoints ?? []).forEach((point, index) => {
+      const feature = new Feature({ geometry: new Point(point.position) });
+      feature.setStyle(new Style({
+        image: new CircleStyle({
+          radius: 6,
+          fill: new Fill({ color: 'green' }),
+          stroke: new Stroke({ color: 'white', width: 2 }),
+        }),
+        text: new Text({
+          text: String(index + 1),
+          offsetY: -14,
+          font: 'bold 12px sans-serif',
+          fill: new Fill({ color: 'green' }),
+          stroke: new Stroke({ color: 'white', width: 3 }),
+        }),
+      }));
+      controlPointVectorSource.current.addFeature(feature);
+    });
+  }, [georeference]);
+
+  useEffect(() => {
+    interFloorVectorSource.current.clear();
+    if (!interFloorAnalysis) return;
+
+    const { cellSize, wrongFloorCells, devices } = interFloorAnalysis;
+    if (wrongFloorCells.length > 0) {
+      const half = cellSize / 2;
+      const cells = new Feature({
+        geometry: new MultiPolygon(wrongFloorCells.map(([x, y]) => [[
+          [x - half, y - half],
+          [x + half, y - half],
+          [x + half, y + half],
+          [x - half, y + half],
+          [x - half, y - half],
+        ]])),
+      });
+      cells.setStyle(new Style({ fill: new Fill({ color: 'rgba(220, 38, 38, 0.25)' }) }));
+      interFloorVectorSource.current.addFeature(cells);
+    }
+
+    devices.forEach((device) => {
+      const color = device.kind === 'beacon' ? 'rgb(234, 88, 12)' : 'rgb(147, 51, 234)';
+      const feature = new Feature({ geometry: new Point(device.position) });
+      feature.setStyle([
+        new Style({
+          geometry: new Circle(device.position, device.footprintRadius),
+          stroke: new Stroke({ color, width: 1.5, lineDash: [6, 4] }),
+        }),
+        new Style({
+          image: new CircleStyle({
+            radius: 5,
+            fill: new Fill({ color: 'white' }),
+            stroke: new Stroke({ color, width: 2 }),
+          }),
+          text: new Text({
+            text: `${device.id} (${device.floorName})`,
+            offsetY: -14,
+            font: '11px sans-serif',
+            fill: new Fill({ color }),
+            stroke: new Stroke({ color: 'white', width: 3 }),
+          }),
+        }),
+      ]);
+      interFloorVectorSource.current.addFeature(feature);
+    });
+  }, [interFloorAnalysis]);
 
   const handleMapClick = useCallback((event: any) => {
     if (!mapInstance) return;
@@ -222,6 +868,7 @@ const MapDisplay: React.FC<MapDisplayProps> = ({
       const newBeacon: Beacon = {
         id: `beacon-${Date.now()}`,
         position: coordinate,
+        rssi: autoRssi,
       };
       setBeacons((prev) => [...prev, newBeacon]);
       showSuccess('Маяк добавлен вручную!');
@@ -235,17 +882,48 @@ const MapDisplay: React.FC<MapDisplayProps> = ({
       };
       setAntennas((prev) => [...prev, newAntenna]);
       showSuccess('Антенна добавлена вручную!');
+    } else if (isGeoreferenceMode) {
+      setPendingControlPoint(coordinate);
     }
-  }, [isManualBeaconPlacementMode, isManualAntennaPlacementMode, mapInstance, autoAntennaHeight, autoAntennaAngle, calculatedAntennaRange]);
+  }, [isManualBeaconPlacementMode, isManualAntennaPlacementMode, isGeoreferenceMode, mapInstance, autoRssi, autoAntennaHeight, autoAntennaAngle, calculatedAntennaRange]);
 
   useEffect(() => {
     if (mapInstance) {
       mapInstance.un('click', handleMapClick);
-      if (isManualBeaconPlacementMode || isManualAntennaPlacementMode) {
+      if (isManualBeaconPlacementMode || isManualAntennaPlacementMode || isGeoreferenceMode) {
         mapInstance.on('click', handleMapClick);
       }
     }
-  }, [mapInstance, isManualBeaconPlacementMode, isManualAntennaPlacementMode, handleMapClick]);
+  }, [mapInstance, isManualBeaconPlacementMode, isManualAntennaPlacementMode, isGeoreferenceMode, handleMapClick]);
+
+  const handleAddControlPoint = (lonLat: Coordinate) => {
+    if (!pendingControlPoint || !onGeoreferenceChange) return;
+    const current = georeference ?? { method: 'similarity', controlPoints: [] };
+    onGeoreferenceChange({
+      ...current,
+      controlPoints: [...current.controlPoints, { id: `control-${Date.now()}`, position: pendingControlPoint, lonLat }],
+    });
+    setPendingControlPoint(null);
+    showSuccess('Контрольная точка добавлена.');
+  };
+
+  const handleLoadReferenceLayer = async (file: File) => {
+    try {
+      const features = new GeoJSON().readFeatures(await readFileAsText(file), {
+        dataProjection: 'EPSG:4326',
+        featureProjection: 'EPSG:3857',
+      });
+      if (features.length === 0) {
+        showError('Опорный слой не содержит объектов.');
+        return;
+      }
+      setReferenceFeatures(features);
+      showSuccess(`Опорный слой загружен: ${features.length} объектов.`);
+    } catch (error) {
+      console.error('Ошибка при чтении опорного слоя:', error);
+      showError('Опорный слой должен быть файлом GeoJSON в координатах WGS84.');
+    }
+  };
 
   // Effect to manage Draw, Modify, and Snap interactions for barriers
   useEffect(() => {
@@ -270,7 +948,7 @@ const MapDisplay: React.FC<MapDisplayProps> = ({
       drawInteraction.current = new Draw({
         source: barrierVectorSource.current,
         type: 'Polygon',
-        style: barrierStyle,
+        style: BARRIER_STYLES[newBarrier.material],
       });
       mapInstance.addInteraction(drawInteraction.current);
 
@@ -278,7 +956,9 @@ const MapDisplay: React.FC<MapDisplayProps> = ({
       mapInstance.addInteraction(snapInteraction.current);
 
       drawInteraction.current.on('drawend', (event) => {
-        event.feature.setStyle(barrierStyle);
+        event.feature.setId(`barrier-${Date.now()}`);
+        event.feature.setProperties(newBarrier);
+        event.feature.setStyle(BARRIER_STYLES[newBarrier.material]);
         showSuccess('Барьер добавлен!');
       });
     } else {
@@ -289,75 +969,153 @@ const MapDisplay: React.FC<MapDisplayProps> = ({
       snapInteraction.current = new Snap({ source: barrierVectorSource.current });
       mapInstance.addInteraction(snapInteraction.current);
     }
-  }, [mapInstance, isDrawingBarrierMode]);
+  }, [mapInstance, isDrawingBarrierMode, newBarrier]);
 
+  // Calibration: a two-point line whose real length the user then enters
+  useEffect(() => {
+    if (!mapInstance || !isCalibrationMode) return;
 
-  const handleAutoPlaceBeacons = () => {
-    const newBeacons: Beacon[] = [];
-    let idCounter = 0;
+    const source = calibrationVectorSource.current;
+    const calibrationDraw = new Draw({
+      source,
+      type: 'LineString',
+      maxPoints: 2,
+    });
+    calibrationDraw.on('drawstart', () => source.clear());
+    calibrationDraw.on('drawend', (event) => {
+      const coordinates = (event.feature.getGeometry() as LineString).getCoordinates();
+      setCalibrationPoints([coordinates[0], coordinates[coordinates.length - 1]]);
+    });
+    mapInstance.addInteraction(calibrationDraw);
+    showSuccess('Отметьте на плане две точки с известным расстоянием между ними.');
 
-    const barrierGeometries = barrierVectorSource.current.getFeatures().map(f => f.getGeometry());
+    return () => {
+      mapInstance.removeInteraction(calibrationDraw);
+      source.clear();
+    };
+  }, [mapInstance, isCalibrationMode]);
 
-    for (let y = autoBeaconStep / 2; y < mapHeightMeters; y += autoBeaconStep) {
-      for (let x = autoBeaconStep / 2; x < mapWidthMeters; x += autoBeaconStep) {
-        const beaconPoint = new Point([x, y]);
-        let isInsideBarrier = false;
-        for (const barrierGeom of barrierGeometries) {
-          if (barrierGeom instanceof Polygon && barrierGeom.intersectsCoordinate(beaconPoint.getCoordinates())) {
-            isInsideBarrier = true;
-            break;
-          }
-        }
+  // Crop: a box around the part of the plan to keep
+  useEffect(() => {
+    if (!mapInstance || !isCropMode) return;
 
-        if (!isInsideBarrier) {
-          newBeacons.push({
-            id: `beacon-auto-${idCounter++}`,
-            position: [x, y],
-            rssi: autoRssi,
-          });
-        }
+    const source = calibrationVectorSource.current;
+    const cropDraw = new Draw({
+      source,
+      type: 'Circle',
+      geometryFunction: createBox(),
+    });
+    cropDraw.on('drawstart', () => source.clear());
+    cropDraw.on('drawend', (event) => {
+      const [minX, minY, maxX, maxY] = event.feature.getGeometry()!.getExtent();
+      const extent = [
+        Math.max(0, minX),
+        Math.max(0, minY),
+        Math.min(mapWidthMeters, maxX),
+        Math.min(mapHeightMeters, maxY),
+      ];
+      if (extent[2] - extent[0] <= 0 || extent[3] - extent[1] <= 0) {
+        showError('Рамка обрезки должна пересекать план.');
+        return;
+      }
+      setPendingCropExtent(extent);
+    });
+    mapInstance.addInteraction(cropDraw);
+    showSuccess('Обведите рамкой часть плана, которую нужно оставить.');
+
+    return () => {
+      mapInstance.removeInteraction(cropDraw);
+      source.clear();
+    };
+  }, [mapInstance, isCropMode, mapWidthMeters, mapHeightMeters]);
+
+  const handleCropConfirm = () => {
+    if (!pendingCropExtent || !onCrop) return;
+    setPendingCropExtent(null);
+    onCrop(pendingCropExtent);
+  };
+
+  const handleCalibrationConfirm = async (realDistance: number) => {
+    if (!calibrationPoints || !onCalibrate) return;
+    try {
+      const imageSize = mapImageSrc ? await readImageSize(await loadImageBlob(mapImageSrc)) : null;
+      const extent = calibrateExtent(
+        calibrationPoints,
+        realDistance,
+        { width: mapWidthMeters, height: mapHeightMeters },
+        imageSize,
+      );
+      if (!extent) {
+        showError('Точки калибровки совпадают. Отметьте две разные точки.');
+        return;
       }
+      setCalibrationPoints(null);
+      onCalibrate(extent);
+      showSuccess(`Масштаб откалиброван: карта ${extent.width.toFixed(2)} × ${extent.height.toFixed(2)} м.`);
+    } catch (error) {
+      console.error('Ошибка при калибровке масштаба:', error);
+      showError('Не удалось откалибровать масштаб.');
     }
+  };
+
+  // Plan area open to devices and receivers, i.e. outside the drawn barriers
+  const getPlacementArea = (): PlacementArea => {
+    const barrierGeometries = barrierVectorSource.current.getFeatures().map(f => f.getGeometry());
+    return {
+      width: mapWidthMeters,
+      height: mapHeightMeters,
+      isBlocked: (point) => barrierGeometries.some(
+        (barrierGeom) => barrierGeom instanceof Polygon && barrierGeom.intersectsCoordinate(point),
+      ),
+    };
+  };
+
+  const handleAutoPlaceBeacons = () => {
+    const positions = placeWithWalls(
+      propagation,
+      { rssiAt1m: getBeaconRssiAt1m(propagation, autoRssi), mountHeight: BEACON_MOUNT_HEIGHT },
+      getPlacementArea(),
+      barriers,
+      calculatedBeaconStep,
+    );
+    const newBeacons = positions.map((position, index): Beacon => ({
+      id: `beacon-auto-${index}`,
+      position,
+      rssi: autoRssi,
+    }));
     setBeacons(newBeacons);
     setIsManualBeaconPlacementMode(false);
     setIsManualAntennaPlacementMode(false);
     setIsDrawingBarrierMode(false);
-    showSuccess(`Автоматически размещено ${newBeacons.length} маяков (с учетом барьеров).`);
+    setIsCalibrationMode(false);
+    setIsGeoreferenceMode(false);
+    setIsCropMode(false);
+    showSuccess(`Автоматически размещено ${newBeacons.length} маяков (с учетом барьеров и затухания в стенах).`);
   };
 
   const handleAutoPlaceAntennas = () => {
-    const newAntennas: Antenna[] = [];
-    let idCounter = 0;
-
-    const barrierGeometries = barrierVectorSource.current.getFeatures().map(f => f.getGeometry());
-
-    for (let y = calculatedAntennaStep / 2; y < mapHeightMeters; y += calculatedAntennaStep) {
-      for (let x = calculatedAntennaStep / 2; x < mapWidthMeters; x += calculatedAntennaStep) {
-        const antennaPoint = new Point([x, y]);
-        let isInsideBarrier = false;
-        for (const barrierGeom of barrierGeometries) {
-          if (barrierGeom instanceof Polygon && barrierGeom.intersectsCoordinate(antennaPoint.getCoordinates())) {
-            isInsideBarrier = true;
-            break;
-          }
-        }
-
-        if (!isInsideBarrier) {
-          newAntennas.push({
-            id: `antenna-auto-${idCounter++}`,
-            position: [x, y],
-            height: autoAntennaHeight,
-            angle: autoAntennaAngle,
-            range: calculatedAntennaRange,
-          });
-        }
-      }
-    }
+    const positions = placeWithWalls(
+      propagation,
+      { rssiAt1m: propagation.rssiAt1m, mountHeight: autoAntennaHeight },
+      getPlacementArea(),
+      barriers,
+      calculatedAntennaStep,
+    );
+    const newAntennas = positions.map((position, index): Antenna => ({
+      id: `antenna-auto-${index}`,
+      position,
+      height: autoAntennaHeight,
+      angle: autoAntennaAngle,
+      range: calculatedAntennaRange,
+    }));
     setAntennas(newAntennas);
     setIsManualBeaconPlacementMode(false);
     setIsManualAntennaPlacementMode(false);
     setIsDrawingBarrierMode(false);
-    showSuccess(`Автоматически размещено ${newAntennas.length} антенн (с учетом барьеров).`);
+    setIsCalibrationMode(false);
+    setIsGeoreferenceMode(false);
+    setIsCropMode(false);
+    showSuccess(`Автоматически размещено ${newAntennas.length} антенн (с учетом барьеров и затухания в стенах).`);
   };
 
   const handleClearBeacons = () => {
@@ -403,6 +1161,177 @@ const MapDisplay: React.FC<MapDisplayProps> = ({
     mapInstance.renderSync(); // Принудительная синхронная отрисовка для захвата
   };
 
+  const handleExportMapToSvg = async () => {
+    try {
+      const svg = planToSvg(
+        {
+          mapImageSrc: mapImageSrc && await toPortableImageSrc(mapImageSrc),
+          vectorBasemap,
+          mapWidth: mapWidthMeters,
+          mapHeight: mapHeightMeters,
+          beacons,
+          antennas,
+          barriers: barrierVectorSource.current.getFeatures().map(featureToBarrier),
+          propagation,
+        },
+        { beacons: showBeacons, antennas: showAntennas, barriers: showBarriers },
+      );
+      downloadText(svg, 'map_export.svg', 'image/svg+xml');
+      showSuccess('Карта успешно экспортирована в SVG!');
+    } catch (error) {
+      console.error('Ошибка при экспорте карты в SVG:', error);
+      showError('Ошибка при экспорте карты в SVG.');
+    }
+  };
+
+  const handleExportImdf = (options: ImdfExportOptions) => {
+    setImdfOptions(options);
+    try {
+      const archive = createImdfArchive(
+        {
+          mapWidth: mapWidthMeters,
+          mapHeight: mapHeightMeters,
+          ordinal: floor.ordinal,
+          beacons,
+          antennas,
+          barriers: barrierVectorSource.current.getFeatures().map(featureToBarrier),
+        },
+        options,
+        geoFit?.transform,
+      );
+      downloadBlob(new Blob([archive], { type: 'application/zip' }), `${options.venueName}.imdf.zip`);
+      showSuccess('План экспортирован в IMDF.');
+    } catch (error) {
+      console.error('Ошибка при экспорте IMDF:', error);
+      showError('Ошибка при экспорте плана в IMDF.');
+    }
+  };
+
+  const handleExportReport = async (reportProjectName: string, floorName: string) => {
+    if (!mapInstance) {
+      showError('Карта не инициализирована.');
+      return;
+    }
+    try {
+      const { canvas, metersPerPixel } = await captureMap(mapInstance, [0, 0, mapWidthMeters, mapHeightMeters]);
+      drawScaleBar(canvas, metersPerPixel);
+      drawNorthArrow(canvas, getScreenNorthAngle(orientation.rotation, northBearing));
+      const pdf = await createInstallationReportPdf({
+        projectName: reportProjectName,
+        floorName,
+        mapImage: canvas.toDataURL('image/png'),
+        mapWidth: mapWidthMeters,
+        mapHeight: mapHeightMeters,
+        visibleLayers: { beacons: showBeacons, antennas: showAntennas, barriers: showBarriers },
+        coordinateSystem: describeCoordinateSystem(coordinateSystem),
+        georeference: geoFit
+          ? `${geoFit.residuals.length} контрольных точек, СКО ${geoFit.rmsError.toFixed(2)} м`
+          : null,
+        toLonLat: toLonLat && ((position) => toLonLat(fromDrawing(position))),
+        orientation: { ...orientation, northBearing },
+        beacons: beacons.map((beacon) => ({ ...beacon, position: toDrawing(beacon.position) })),
+        antennas: antennas.map((antenna) => ({ ...antenna, position: toDrawing(antenna.position) })),
+        barrierCount: barrierVectorSource.current.getFeatures().length,
+        settings: { autoRssi, autoAntennaHeight, autoAntennaAngle, propagation },
+        beaconRange: calculatedBeaconRange,
+        beaconStep: calculatedBeaconStep,
+        antennaRange: calculatedAntennaRange,
+        antennaStep: calculatedAntennaStep,
+        createdAt: new Date(),
+      });
+      downloadBlob(pdf, `${reportProjectName} - ${floorName}.pdf`);
+      showSuccess('Отчет в PDF сформирован.');
+    } catch (error) {
+      console.error('Ошибка при формировании отчета:', error);
+      showError('Ошибка при формировании отчета в PDF.');
+    }
+  };
+
+  const handleExportDevicesCsv = (kind: DeviceKind) => {
+    const options = {
+      floor: floor.name,
+      toLonLat: toLonLat && ((position: Coordinate) => toLonLat(fromDrawing(position))),
+    };
+    if (kind === 'beacon') {
+      const drawingBeacons = beacons.map((beacon) => ({ ...beacon, position: toDrawing(beacon.position) }));
+      downloadText(beaconsToCsv(drawingBeacons, options), 'beacons.csv', 'text/csv');
+    } else {
+      const drawingAntennas = antennas.map((antenna) => ({ ...antenna, position: toDrawing(antenna.position) }));
+      downloadText(antennasToCsv(drawingAntennas, options), 'antennas.csv', 'text/csv');
+    }
+    showSuccess('Список устройств экспортирован в CSV.');
+  };
+
+  const handleImportDevicesCsvClick = (kind: DeviceKind) => {
+    setCsvImportTarget(kind);
+    csvFileInputRef.current?.click();
+  };
+
+  const handleCsvFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      const rows = parseCsv(await readFileAsText(file));
+      if (rows.length < 2) {
+        showError('CSV-файл не содержит строк с устройствами.');
+        return;
+      }
+      setCsvRows(rows);
+      setCsvImportKind(csvImportTarget);
+    } catch (error) {
+      console.error('Ошибка при чтении CSV:', error);
+      showError('Ошибка при чтении CSV-файла.');
+    }
+  };
+
+  const handleImportBeacons = (imported: Beacon[], replaceExisting: boolean) => {
+    setBeacons((prev) => (replaceExisting ? imported : mergeImportedDevices(prev, imported)));
+    showSuccess(`Импортировано ${imported.length} маяков.`);
+  };
+
+  const handleImportAntennas = (imported: Antenna[], replaceExisting: boolean) => {
+    setAntennas((prev) => (replaceExisting ? imported : mergeImportedDevices(prev, imported)));
+    showSuccess(`Импортировано ${imported.length} антенн.`);
+  };
+
+  const handleExportGeoJson = () => {
+    const geoJson = planToGeoJson(
+      { beacons, antennas, barriers: barrierVectorSource.current.getFeatures().map(featureToBarrier) },
+      { mapWidth: mapWidthMeters, mapHeight: mapHeightMeters, orientation: { ...orientation, northBearing }, floor },
+      toLonLat,
+    );
+    downloadText(geoJson, 'plan.geojson', 'application/geo+json');
+    showSuccess('Слои экспортированы в GeoJSON.');
+  };
+
+  const handleGeoJsonFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      const layers = geoJsonToPlan(await readFileAsText(file), {
+        antennaHeight: autoAntennaHeight,
+        antennaAngle: autoAntennaAngle,
+        getAntennaRange: (height) => getAntennaRange(propagation, height),
+      });
+      setBeacons(layers.beacons);
+      setAntennas(layers.antennas);
+      barrierVectorSource.current.clear();
+      barrierVectorSource.current.addFeatures(layers.barriers.map(createBarrierFeature));
+      showSuccess(`Импортировано из GeoJSON: маяков ${layers.beacons.length}, антенн ${layers.antennas.length}, барьеров ${layers.barriers.length}.`);
+    } catch (error) {
+      if (error instanceof GeoJsonImportError) {
+        showError(error.message);
+      } else {
+        console.error('Ошибка при импорте GeoJSON:', error);
+        showError('Ошибка при чтении GeoJSON-файла.');
+      }
+    }
+  };
+
   return (
     <div className="flex flex-col gap-4">
       <div className="flex flex-wrap gap-2">
@@ -411,6 +1340,9 @@ const MapDisplay: React.FC<MapDisplayProps> = ({
             setIsManualBeaconPlacementMode(!isManualBeaconPlacementMode);
             setIsManualAntennaPlacementMode(false);
             setIsDrawingBarrierMode(false);
+            setIsCalibrationMode(false);
+            setIsGeoreferenceMode(false);
+            setIsCropMode(false);
           }}
           variant={isManualBeaconPlacementMode ? 'destructive' : 'default'}
         >
@@ -421,6 +1353,9 @@ const MapDisplay: React.FC<MapDisplayProps> = ({
             setIsManualAntennaPlacementMode(!isManualAntennaPlacementMode);
             setIsManualBeaconPlacementMode(false);
             setIsDrawingBarrierMode(false);
+            setIsCalibrationMode(false);
+            setIsGeoreferenceMode(false);
+            setIsCropMode(false);
           }}
           variant={isManualAntennaPlacementMode ? 'destructive' : 'default'}
         >
@@ -431,11 +1366,59 @@ const MapDisplay: React.FC<MapDisplayProps> = ({
             setIsDrawingBarrierMode(!isDrawingBarrierMode);
             setIsManualBeaconPlacementMode(false);
             setIsManualAntennaPlacementMode(false);
+            setIsCalibrationMode(false);
+            setIsGeoreferenceMode(false);
+            setIsCropMode(false);
           }}
           variant={isDrawingBarrierMode ? 'destructive' : 'default'}
         >
           {isDrawingBarrierMode ? 'Выйти из режима рисования барьеров' : 'Включить рисование барьеров'}
         </Button>
+        {onCalibrate && (
+          <Button
+            onClick={() => {
+              setIsCalibrationMode(!isCalibrationMode);
+              setIsManualBeaconPlacementMode(false);
+              setIsManualAntennaPlacementMode(false);
+              setIsDrawingBarrierMode(false);
+              setIsGeoreferenceMode(false);
+              setIsCropMode(false);
+            }}
+            variant={isCalibrationMode ? 'destructive' : 'default'}
+          >
+            {isCalibrationMode ? 'Выйти из режима калибровки' : 'Калибровка масштаба'}
+          </Button>
+        )}
+        {onGeoreferenceChange && (
+          <Button
+            onClick={() => {
+              setIsGeoreferenceMode(!isGeoreferenceMode);
+              setIsManualBeaconPlacementMode(false);
+              setIsManualAntennaPlacementMode(false);
+              setIsDrawingBarrierMode(false);
+              setIsCalibrationMode(false);
+              setIsCropMode(false);
+            }}
+            variant={isGeoreferenceMode ? 'destructive' : 'default'}
+          >
+            {isGeoreferenceMode ? 'Выйти из режима геопривязки' : 'Геопривязка'}
+          </Button>
+        )}
+        {onCrop && mapImageSrc && (
+          <Button
+            onClick={() => {
+              setIsCropMode(!isCropMode);
+              setIsManualBeaconPlacementMode(false);
+              setIsManualAntennaPlacementMode(false);
+              setIsDrawingBarrierMode(false);
+              setIsCalibrationMode(false);
+              setIsGeoreferenceMode(false);
+            }}
+            variant={isCropMode ? 'destructive' : 'default'}
+          >
+            {isCropMode ? 'Выйти из режима обрезки' : 'Обрезка плана'}
+          </Button>
+        )}
         <Button onClick={handleClearBeacons} variant="outline">
           Очистить все маяки
         </Button>
@@ -448,11 +1431,192 @@ const MapDisplay: React.FC<MapDisplayProps> = ({
         <Button onClick={handleExportMapToPNG} variant="secondary">
           Экспорт карты в PNG
         </Button>
+        <Button onClick={handleExportMapToSvg} variant="secondary">
+          Экспорт карты в SVG
+        </Button>
+        <Button onClick={() => setIsReportDialogOpen(true)} variant="secondary">
+          Отчет в PDF
+        </Button>
       </div>
 
-      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 p-4 border rounded-md">
+      <div className="flex flex-wrap gap-2">
+        <Button onClick={() => handleImportDevicesCsvClick('beacon')} variant="outline">
+          Импорт маяков из CSV
+        </Button>
+        <Button onClick={() => handleExportDevicesCsv('beacon')} variant="outline" disabled={beacons.length === 0}>
+          Экспорт маяков в CSV
+        </Button>
+        <Button onClick={() => handleImportDevicesCsvClick('antenna')} variant="outline">
+          Импорт антенн из CSV
+        </Button>
+        <Button onClick={() => handleExportDevicesCsv('antenna')} variant="outline" disabled={antennas.length === 0}>
+          Экспорт антенн в CSV
+        </Button>
+        <Button onClick={() => geoJsonFileInputRef.current?.click()} variant="outline">
+          Импорт слоев из GeoJSON
+        </Button>
+        <Button onClick={handleExportGeoJson} variant="outline">
+          Экспорт слоев в GeoJSON
+        </Button>
+        <Button onClick={() => setIsImdfDialogOpen(true)} variant="outline">
+          Экспорт в IMDF
+        </Button>
+        <input
+          ref={geoJsonFileInputRef}
+          type="file"
+          accept=".geojson,.json,application/geo+json,application/json"
+          className="hidden"
+          onChange={handleGeoJsonFileChange}
+        />
+        <input
+          ref={csvFileInputRef}
+          type="file"
+          accept=".csv,text/csv"
+          className="hidden"
+          onChange={handleCsvFileChange}
+        />
+      </div>
+
+      <ScaleCalibrationDialog
+        measuredDistance={calibrationPoints && Math.hypot(
+          calibrationPoints[1][0] - calibrationPoints[0][0],
+          calibrationPoints[1][1] - calibrationPoints[0][1],
+        )}
+        onClose={() => {
+          setCalibrationPoints(null);
+          calibrationVectorSource.current.clear();
+        }}
+        onConfirm={handleCalibrationConfirm}
+      />
+
+      <AlertDialog
+        open={pendingCropExtent !== null}
+        onOpenChange={(open) => {
+          if (open) return;
+          setPendingCropExtent(null);
+          calibrationVectorSource.current.clear();
+        }}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Обрезать план?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {pendingCropExtent && (
+                <>
+                  Новый размер плана —{' '}
+                  {(pendingCropExtent[2] - pendingCropExtent[0]).toFixed(2)} ×{' '}
+                  {(pendingCropExtent[3] - pendingCropExtent[1]).toFixed(2)} м.{' '}
+                </>
+              )}
+              Маяки, антенны и барьеры останутся на своих местах плана; оказавшиеся за рамкой сохранятся
+              за его границей. Обрезанные поля изображения восстановить будет нельзя.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Отмена</AlertDialogCancel>
+            <AlertDialogAction onClick={handleCropConfirm}>Обрезать</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <ControlPointDialog
+        position={pendingControlPoint}
+        referenceFeatures={referenceFeatures}
+        onClose={() => setPendingControlPoint(null)}
+        onConfirm={handleAddControlPoint}
+      />
+
+      {onGeoreferenceChange && (isGeoreferenceMode || georeference) && (
+        <GeoreferencePanel
+          georeference={georeference ?? { method: 'similarity', controlPoints: [] }}
+          fit={geoFit}
+          referenceFeatureCount={referenceFeatures.length}
+          formatPosition={formatPosition}
+          onChange={onGeoreferenceChange}
+          onLoadReferenceLayer={handleLoadReferenceLayer}
+        />
+      )}
+
+      <InstallationReportDialog
+        open={isReportDialogOpen}
+        defaultProjectName={projectName}
+        defaultFloorName={floor.name}
+        onClose={() => setIsReportDialogOpen(false)}
+        onGenerate={handleExportReport}
+      />
+
+      <ImdfExportDialog
+        open={isImdfDialogOpen}
+        defaultOptions={imdfOptions}
+        isGeoreferenced={geoFit !== null}
+        onClose={() => setIsImdfDialogOpen(false)}
+        onExport={handleExportImdf}
+      />
+
+      <DeviceCsvImportDialog
+        kind={csvImportKind}
+        rows={csvRows}
+        mapWidthMeters={mapWidthMeters}
+        mapHeightMeters={mapHeightMeters}
+        toMapCoordinate={fromDrawing}
+        antennaDefaults={antennaCsvDefaults}
+        onClose={() => setCsvImportKind(null)}
+        onImportBeacons={handleImportBeacons}
+        onImportAntennas={handleImportAntennas}
+      />
+
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4 p-4 border rounded-md">
+        <h3 className="text-lg font-semibold col-span-full">Модель распространения сигнала:</h3>
         <div className="flex flex-col gap-2">
-          <Label htmlFor="autoRssi">RSSI для авто-расстановки маяков ({autoRssi} dBm)</Label>
+          <Label htmlFor="txPower">Мощность передатчика антенн (dBm)</Label>
+          <Input
+            id="txPower"
+            type="number"
+            value={propagation.txPower}
+            onChange={(e) => setPropagation(withTxPower(propagation, Number(e.target.value)))}
+            step="1"
+          />
+        </div>
+        <div className="flex flex-col gap-2">
+          <Label htmlFor="rssiAt1m">RSSI антенн на 1 м (dBm)</Label>
+          <Input
+            id="rssiAt1m"
+            type="number"
+            value={propagation.rssiAt1m}
+            onChange={(e) => setPropagation({ ...propagation, rssiAt1m: Number(e.target.value) })}
+            step="1"
+          />
+        </div>
+        <div className="flex flex-col gap-2">
+          <Label htmlFor="pathLossExponent">Показатель затухания n</Label>
+          <Input
+            id="pathLossExponent"
+            type="number"
+            value={propagation.pathLossExponent}
+            onChange={(e) => {
+              const pathLossExponent = Number(e.target.value);
+              if (pathLossExponent > 0) setPropagation({ ...propagation, pathLossExponent });
+            }}
+            min="1"
+            max="6"
+            step="0.1"
+          />
+        </div>
+        <div className="flex flex-col gap-2">
+          <Label htmlFor="sensitivity">Чувствительность приемника (dBm)</Label>
+          <Input
+            id="sensitivity"
+            type="number"
+            value={propagation.sensitivity}
+            onChange={(e) => setPropagation({ ...propagation, sensitivity: Number(e.target.value) })}
+            step="1"
+          />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 p-4 border rounded-md">
+        <div className="flex flex-col gap-2">
+          <Label htmlFor="autoRssi">RSSI маяков на 1 м ({autoRssi} dBm)</Label>
           <Slider
             id="autoRssi"
             min={-100}
@@ -463,15 +1627,10 @@ const MapDisplay: React.FC<MapDisplayProps> = ({
           />
         </div>
         <div className="flex flex-col gap-2">
-          <Label htmlFor="autoBeaconStep">Шаг расстановки маяков (метры: {autoBeaconStep} м)</Label>
-          <Slider
-            id="autoBeaconStep"
-            min={1}
-            max={50}
-            step={1}
-            value={[autoBeaconStep]}
-            onValueChange={(val) => setAutoBeaconStep(val[0])}
-          />
+          <Label>Радиус покрытия маяков (метры: {calculatedBeaconRange.toFixed(2)} м)</Label>
+        </div>
+        <div className="flex flex-col gap-2">
+          <Label>Шаг расстановки маяков (метры: {calculatedBeaconStep.toFixed(2)} м)</Label>
         </div>
         <Button onClick={handleAutoPlaceBeacons} className="col-span-full">
           Автоматически расставить маяки
@@ -542,7 +1701,56 @@ const MapDisplay: React.FC<MapDisplayProps> = ({
         </div>
       </div>
 
-      <div ref={mapRef} className="w-full h-[600px] border rounded-md" />
+      {onBasemapAdjustmentsChange && (
+        <BasemapAdjustmentsPanel adjustments={basemapAdjustments} onChange={onBasemapAdjustmentsChange} />
+      )}
+
+      <BarrierMaterialsPanel
+        newBarrier={newBarrier}
+        onNewBarrierChange={setNewBarrier}
+        barriers={barriers}
+        onBarrierChange={handleBarrierMaterialChange}
+      />
+
+      <HeatmapPanel
+        settings={heatmapSettings}
+        onChange={setHeatmapSettings}
+        beacons={beacons}
+        antennas={antennas}
+        progress={heatmap.progress}
+        onCancel={handleCancelHeatmap}
+        cellSize={heatmap.grid?.cellSize ?? null}
+      />
+
+      <KCoveragePanel
+        settings={kCoverageSettings}
+        onChange={setKCoverageSettings}
+        shares={kCoverageSettings.isVisible ? kCoverageShares : null}
+        progress={kCoverage.progress}
+        onCancel={kCoverage.cancel}
+      />
+
+      <AntennaCoveragePanel
+        settings={antennaCoverageSettings}
+        onChange={setAntennaCoverageSettings}
+        antennas={antennas}
+        stats={isAntennaCoverageVisible ? antennaCoverageStats : null}
+        progress={antennaCoverage.progress}
+        onCancel={antennaCoverage.cancel}
+      />
+
+      <div className="relative">
+        <div ref={mapRef} className="w-full h-[600px] border rounded-md" />
+        {tilingProgress !== null && (
+          <div className="absolute top-2 left-2 z-10 rounded-sm bg-white/80 px-2 py-1 text-sm text-gray-800">
+            Подготовка изображения плана: {Math.round(tilingProgress * 100)}%
+          </div>
+        )}
+        <NorthArrow
+          angle={getScreenNorthAngle(orientation.rotation, northBearing)}
+          onClick={onOrientationChange && (() => onOrientationChange({ ...orientation, rotation: northBearing }))}
+        />
+      </div>
 
       {beacons.length > 0 && (
         <div className="mt-4 p-4 border rounded-md">
@@ -551,7 +1759,8 @@ const MapDisplay: React.FC<MapDisplayProps> = ({
             {beacons.map((beacon) => (
               <div key={beacon.id} className="bg-gray-100 dark:bg-gray-800 p-2 rounded-sm text-sm">
                 ID: {beacon.id.substring(0, 8)}... <br />
-                Позиция: ({beacon.position[0].toFixed(2)}м, {beacon.position[1].toFixed(2)}м)
+                Позиция: {formatPosition(beacon.position)}
+                {toLonLat && <><br />{formatLonLat(toLonLat(beacon.position))}</>}
                 {beacon.rssi && <><br />RSSI: {beacon.rssi} dBm</>}
               </div>
             ))}
@@ -566,7 +1775,8 @@ const MapDisplay: React.FC<MapDisplayProps> = ({
             {antennas.map((antenna) => (
               <div key={antenna.id} className="bg-gray-100 dark:bg-gray-800 p-2 rounded-sm text-sm">
                 ID: {antenna.id.substring(0, 8)}... <br />
-                Позиция: ({antenna.position[0].toFixed(2)}м, {antenna.position[1].toFixed(2)}м) <br />
+                Позиция: {formatPosition(antenna.position)} <br />
+                {toLonLat && <>{formatLonLat(toLonLat(antenna.position))} <br /></>}
                 Высота: {antenna.height.toFixed(1)}м, Угол: {antenna.angle}° <br />
                 Радиус: {antenna.range.toFixed(1)}м
               </div>
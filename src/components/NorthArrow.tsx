@@ -0,0 +1,25 @@
+import React from 'react';
+
+interface NorthArrowProps {
+  angle: number; // Screen direction of north, degrees clockwise from up
+  onClick?: () => void;
+}
+
+const NorthArrow: React.FC<NorthArrowProps> = ({ angle, onClick }) => {
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      title="Повернуть план севером вверх"
+      className="absolute top-2 right-2 z-10 flex h-14 w-14 items-center justify-center rounded-full bg-white/80 shadow"
+    >
+      <svg viewBox="-20 -20 40 40" className="h-12 w-12" style={{ transform: `rotate(${angle}deg)` }}>
+        <text x="0" y="-10" textAnchor="middle" fontSize="9" fontWeight="bold" fill="#111827">С</text>
+        <polygon points="0,-8 6,14 0,9" fill="#dc2626" />
+        <polygon points="0,-8 -6,14 0,9" fill="#991b1b" />
+      </svg>
+    </button>
+  );
+};
+
+export default NorthArrow;
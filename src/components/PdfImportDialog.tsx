@@ -0,0 +1,165 @@
+import React, { useEffect, useState } from 'react';
+import { PDFDocumentProxy } from 'pdfjs-dist';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { showError } from '@/utils/toast';
+import { getPdfPageSizes, pageSizeToMeters, PdfPageSize, renderPdfPage } from '@/utils/pdfImport';
+
+export interface PdfPlanImport {
+  imageSrc: string;
+  width: number; // meters
+  height: number; // meters
+}
+
+interface PdfImportDialogProps {
+  pdf: PDFDocumentProxy | null; // The dialog is open while a document is set
+  onClose: () => void;
+  onImport: (result: PdfPlanImport) => void;
+}
+
+const PREVIEW_SIZE_PIXELS = 480;
+const RENDER_DPI_OPTIONS = [150, 200, 300];
+
+const PdfImportDialog: React.FC<PdfImportDialogProps> = ({ pdf, onClose, onImport }) => {
+  const [pageSizes, setPageSizes] = useState<PdfPageSize[]>([]);
+  const [pageNumber, setPageNumber] = useState(1);
+  const [scaleDenominator, setScaleDenominator] = useState(100);
+  const [renderDpi, setRenderDpi] = useState(200);
+  const [previewSrc, setPreviewSrc] = useState<string | null>(null);
+  const [isRendering, setIsRendering] = useState(false);
+
+  useEffect(() => {
+    if (!pdf) return;
+    setPageNumber(1);
+    setPageSizes([]);
+    setPreviewSrc(null);
+    getPdfPageSizes(pdf).then(setPageSizes).catch((error) => {
+      console.error('Ошибка чтения страниц PDF:', error);
+      showError('Не удалось прочитать страницы PDF.');
+    });
+  }, [pdf]);
+
+  const page = pageSizes.find((size) => size.pageNumber === pageNumber);
+
+  useEffect(() => {
+    if (!pdf || !page) return;
+    let isCancelled = false;
+    const previewDpi = (PREVIEW_SIZE_PIXELS / Math.max(page.widthPoints, page.heightPoints)) * 72;
+    renderPdfPage(pdf, page.pageNumber, previewDpi)
+      .then((rendered) => !isCancelled && setPreviewSrc(rendered.imageSrc))
+      .catch((error) => console.error('Ошибка предпросмотра PDF:', error));
+    return () => {
+      isCancelled = true;
+    };
+  }, [pdf, page]);
+
+  const dimensions = page && scaleDenominator > 0 ? pageSizeToMeters(page, scaleDenominator) : null;
+
+  const handleImport = async () => {
+    if (!pdf || !page || !dimensions) return;
+    setIsRendering(true);
+    try {
+      const rendered = await renderPdfPage(pdf, page.pageNumber, renderDpi);
+      onImport({ imageSrc: rendered.imageSrc, width: dimensions.width, height: dimensions.height });
+      onClose();
+    } catch (error) {
+      console.error('Ошибка отрисовки страницы PDF:', error);
+      showError('Не удалось отрисовать страницу PDF.');
+    } finally {
+      setIsRendering(false);
+    }
+  };
+
+  return (
+    <Dialog open={pdf !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Импорт плана из PDF</DialogTitle>
+          <DialogDescription>
+            Выберите страницу и масштаб чертежа — размеры карты будут рассчитаны по физическому размеру страницы.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+          <div className="flex flex-col gap-2">
+            <Label>Страница</Label>
+            <Select value={String(pageNumber)} onValueChange={(value) => setPageNumber(Number(value))}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {pageSizes.map((size) => (
+                  <SelectItem key={size.pageNumber} value={String(size.pageNumber)}>
+                    Стр. {size.pageNumber} ({Math.round(size.widthPoints * 25.4 / 72)} × {Math.round(size.heightPoints * 25.4 / 72)} мм)
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex flex-col gap-2">
+            <Label htmlFor="pdfScale">Масштаб чертежа (1 : N)</Label>
+            <Input
+              id="pdfScale"
+              type="number"
+              value={scaleDenominator}
+              onChange={(e) => setScaleDenominator(Number(e.target.value))}
+              min="1"
+            />
+          </div>
+          <div className="flex flex-col gap-2">
+            <Label>Разрешение отрисовки</Label>
+            <Select value={String(renderDpi)} onValueChange={(value) => setRenderDpi(Number(value))}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {RENDER_DPI_OPTIONS.map((dpi) => (
+                  <SelectItem key={dpi} value={String(dpi)}>{dpi} DPI</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {dimensions && (
+          <div className="text-sm">
+            Размер карты: <b>{dimensions.width.toFixed(2)} × {dimensions.height.toFixed(2)} м</b>
+          </div>
+        )}
+
+        <div className="flex justify-center border rounded-md bg-gray-50 dark:bg-gray-800 min-h-48">
+          {previewSrc ? (
+            <img src={previewSrc} alt={`Страница ${pageNumber}`} className="max-h-80 object-contain" />
+          ) : (
+            <div className="self-center text-gray-500 dark:text-gray-400">Загрузка предпросмотра...</div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Отмена</Button>
+          <Button onClick={handleImport} disabled={!dimensions || isRendering}>
+            {isRendering ? 'Отрисовка...' : 'Импортировать'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default PdfImportDialog;
@@ -0,0 +1,340 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Coordinate } from 'ol/coordinate';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { showError } from '@/utils/toast';
+import { ImageSize } from '@/utils/image';
+import {
+  AlignedPlanImage,
+  AlignmentPointPair,
+  createInitialAlignment,
+  fitAlignment,
+  getAlignmentResiduals,
+  imageToPlan,
+  MIN_ALIGNMENT_POINT_PAIRS,
+  PlanAlignment,
+  planToImage,
+  PlanSize,
+  renderAlignedImage,
+} from '@/utils/planReplacement';
+
+export interface PlanReplacement {
+  currentImageSrc: string;
+  plan: PlanSize; // extent of the current plan
+  newImageSrc: string;
+  newImageSize: ImageSize;
+}
+
+interface PlanReplaceDialogProps {
+  replacement: PlanReplacement | null; // The dialog is open while a replacement is set
+  onClose: () => void;
+  onReplace: (result: AlignedPlanImage) => void;
+}
+
+type CompareMode = 'opacity' | 'swipe';
+// Which image a click picks a point on; the other one is hidden meanwhile
+type PointPick = 'plan' | 'image' | null;
+
+const VIEWPORT_HEIGHT_VH = 55;
+
+const PlanReplaceDialog: React.FC<PlanReplaceDialogProps> = ({ replacement, onClose, onReplace }) => {
+  const [alignment, setAlignment] = useState<PlanAlignment | null>(null);
+  const [compareMode, setCompareMode] = useState<CompareMode>('opacity');
+  const [overlayOpacity, setOverlayOpacity] = useState(50);
+  const [swipePosition, setSwipePosition] = useState(50);
+  const [pointPairs, setPointPairs] = useState<AlignmentPointPair[]>([]);
+  const [pointPick, setPointPick] = useState<PointPick>(null);
+  const [pendingPlanPoint, setPendingPlanPoint] = useState<Coordinate | null>(null);
+  const [isRendering, setIsRendering] = useState(false);
+  const viewportRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!replacement) return;
+    setAlignment(createInitialAlignment(replacement.plan, replacement.newImageSize));
+    setCompareMode('opacity');
+    setOverlayOpacity(50);
+    setSwipePosition(50);
+    setPointPairs([]);
+    setPointPick(null);
+    setPendingPlanPoint(null);
+  }, [replacement]);
+
+  if (!replacement || !alignment) {
+    return <Dialog open={false} />;
+  }
+
+  const { plan, newImageSize } = replacement;
+  const toPercentX = (x: number) => (x / plan.width) * 100;
+  const toPercentY = (y: number) => ((plan.height - y) / plan.height) * 100;
+  const residuals = getAlignmentResiduals(alignment, newImageSize, pointPairs);
+
+  const updateAlignment = (changes: Partial<PlanAlignment>) => setAlignment({ ...alignment, ...changes });
+
+  const handleViewportClick = (event: React.MouseEvent<HTMLDivElement>) => {
+    if (!pointPick || !viewportRef.current) return;
+    const rect = viewportRef.current.getBoundingClientRect();
+    const position: Coordinate = [
+      ((event.clientX - rect.left) / rect.width) * plan.width,
+      plan.height - ((event.clientY - rect.top) / rect.height) * plan.height,
+    ];
+    if (pointPick === 'plan') {
+      setPendingPlanPoint(position);
+      setPointPick('image');
+    } else if (pendingPlanPoint) {
+      setPointPairs([...pointPairs, { plan: pendingPlanPoint, image: planToImage(alignment, newImageSize, position) }]);
+      setPendingPlanPoint(null);
+      setPointPick(null);
+    }
+  };
+
+  const handleFitPoints = () => {
+    const fitted = fitAlignment(pointPairs, newImageSize);
+    if (!fitted) {
+      showError('Точки на новом плане совпадают. Отметьте пары в разных местах плана.');
+      return;
+    }
+    setAlignment(fitted);
+  };
+
+  const handleReplace = async () => {
+    setIsRendering(true);
+    try {
+      onReplace(await renderAlignedImage(replacement.newImageSrc, alignment, newImageSize));
+      onClose();
+    } catch (error) {
+      console.error('Ошибка при замене плана:', error);
+      showError('Не удалось подготовить новый план.');
+    } finally {
+      setIsRendering(false);
+    }
+  };
+
+  const showsCurrent = pointPick !== 'image';
+  const showsNew = pointPick !== 'plan';
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-5xl max-h-[95vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Замена плана</DialogTitle>
+          <DialogDescription>
+            Совместите новый план с текущим сдвигом, поворотом и масштабом или по парам точек. Маяки, антенны и
+            барьеры останутся на своих местах в здании.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          <div className="flex flex-col gap-2">
+            <Label htmlFor="alignOffsetX">Сдвиг по X (м)</Label>
+            <Input
+              id="alignOffsetX"
+              type="number"
+              value={Number(alignment.offsetX.toFixed(3))}
+              onChange={(e) => updateAlignment({ offsetX: Number(e.target.value) })}
+              step="0.1"
+            />
+          </div>
+          <div className="flex flex-col gap-2">
+            <Label htmlFor="alignOffsetY">Сдвиг по Y (м)</Label>
+            <Input
+              id="alignOffsetY"
+              type="number"
+              value={Number(alignment.offsetY.toFixed(3))}
+              onChange={(e) => updateAlignment({ offsetY: Number(e.target.value) })}
+              step="0.1"
+            />
+          </div>
+          <div className="flex flex-col gap-2">
+            <Label htmlFor="alignRotation">Поворот (°)</Label>
+            <Input
+              id="alignRotation"
+              type="number"
+              value={Number(alignment.rotation.toFixed(2))}
+              onChange={(e) => updateAlignment({ rotation: Number(e.target.value) })}
+              step="0.1"
+            />
+          </div>
+          <div className="flex flex-col gap-2">
+            <Label htmlFor="alignWidth">Ширина нового плана (м)</Label>
+            <Input
+              id="alignWidth"
+              type="number"
+              value={Number((alignment.scale * newImageSize.width).toFixed(3))}
+              onChange={(e) => {
+                const width = Number(e.target.value);
+                if (width > 0) updateAlignment({ scale: width / newImageSize.width });
+              }}
+              min="0"
+              step="0.1"
+            />
+          </div>
+        </div>
+
+        <div className="flex flex-col sm:flex-row gap-4 sm:items-center">
+          <div className="flex gap-2">
+            <Button
+              variant={compareMode === 'opacity' ? 'default' : 'outline'}
+              onClick={() => setCompareMode('opacity')}
+            >
+              Прозрачность
+            </Button>
+            <Button
+              variant={compareMode === 'swipe' ? 'default' : 'outline'}
+              onClick={() => setCompareMode('swipe')}
+            >
+              Шторка
+            </Button>
+          </div>
+          <div className="flex flex-col gap-2 grow">
+            {compareMode === 'opacity' ? (
+              <>
+                <Label htmlFor="compareOpacity">Непрозрачность нового плана ({overlayOpacity}%)</Label>
+                <Slider
+                  id="compareOpacity"
+                  min={0}
+                  max={100}
+                  step={1}
+                  value={[overlayOpacity]}
+                  onValueChange={(val) => setOverlayOpacity(val[0])}
+                />
+              </>
+            ) : (
+              <>
+                <Label htmlFor="compareSwipe">Новый план слева от шторки ({swipePosition}%)</Label>
+                <Slider
+                  id="compareSwipe"
+                  min={0}
+                  max={100}
+                  step={1}
+                  value={[swipePosition]}
+                  onValueChange={(val) => setSwipePosition(val[0])}
+                />
+              </>
+            )}
+          </div>
+        </div>
+
+        <div
+          ref={viewportRef}
+          className={`relative mx-auto overflow-hidden border rounded-md bg-white ${pointPick ? 'cursor-crosshair' : ''}`}
+          style={{
+            aspectRatio: `${plan.width} / ${plan.height}`,
+            width: `min(100%, ${(VIEWPORT_HEIGHT_VH * plan.width) / plan.height}vh)`,
+          }}
+          onClick={handleViewportClick}
+        >
+          {showsCurrent && (
+            <img
+              src={replacement.currentImageSrc}
+              alt="Текущий план"
+              className="absolute inset-0 w-full h-full pointer-events-none select-none"
+            />
+          )}
+          {showsNew && (
+            <div
+              className="absolute inset-0 pointer-events-none"
+              style={pointPick ? undefined : compareMode === 'opacity'
+                ? { opacity: overlayOpacity / 100 }
+                : { clipPath: `inset(0 ${100 - swipePosition}% 0 0)` }}
+            >
+              <img
+                src={replacement.newImageSrc}
+                alt="Новый план"
+                className="absolute max-w-none select-none"
+                style={{
+                  left: `${toPercentX(alignment.offsetX)}%`,
+                  bottom: `${(alignment.offsetY / plan.height) * 100}%`,
+                  width: `${((newImageSize.width * alignment.scale) / plan.width) * 100}%`,
+                  height: `${((newImageSize.height * alignment.scale) / plan.height) * 100}%`,
+                  transformOrigin: 'bottom left',
+                  transform: `rotate(${alignment.rotation}deg)`,
+                }}
+              />
+            </div>
+          )}
+          {compareMode === 'swipe' && !pointPick && (
+            <div
+              className="absolute inset-y-0 w-0.5 bg-red-600 pointer-events-none"
+              style={{ left: `${swipePosition}%` }}
+            />
+          )}
+          {pointPairs.map((pair, index) => {
+            const [x, y] = imageToPlan(alignment, newImageSize, pair.image);
+            return (
+              <React.Fragment key={index}>
+                <div
+                  className="absolute h-3 w-3 -translate-x-1/2 -translate-y-1/2 rounded-full border-2 border-white bg-green-600 pointer-events-none"
+                  style={{ left: `${toPercentX(pair.plan[0])}%`, top: `${toPercentY(pair.plan[1])}%` }}
+                  title={`Пара ${index + 1}: текущий план`}
+                />
+                <div
+                  className="absolute h-3 w-3 -translate-x-1/2 -translate-y-1/2 rounded-full border-2 border-white bg-orange-500 pointer-events-none"
+                  style={{ left: `${toPercentX(x)}%`, top: `${toPercentY(y)}%` }}
+                  title={`Пара ${index + 1}: новый план`}
+                />
+              </React.Fragment>
+            );
+          })}
+          {pendingPlanPoint && (
+            <div
+              className="absolute h-3 w-3 -translate-x-1/2 -translate-y-1/2 rounded-full border-2 border-white bg-green-600 pointer-events-none"
+              style={{ left: `${toPercentX(pendingPlanPoint[0])}%`, top: `${toPercentY(pendingPlanPoint[1])}%` }}
+            />
+          )}
+        </div>
+
+        <div className="flex flex-col sm:flex-row gap-2 sm:items-center">
+          <span className="text-sm mr-auto">
+            {pointPick === 'plan' && 'Отметьте точку на текущем плане.'}
+            {pointPick === 'image' && 'Отметьте ту же точку на новом плане.'}
+            {!pointPick && (pointPairs.length > 0
+              ? `Пар точек: ${pointPairs.length}, наибольшее расхождение ${Math.max(...residuals).toFixed(2)} м.`
+              : `Для выравнивания по точкам отметьте не менее ${MIN_ALIGNMENT_POINT_PAIRS} пар.`)}
+          </span>
+          {pointPick ? (
+            <Button
+              variant="outline"
+              onClick={() => {
+                setPointPick(null);
+                setPendingPlanPoint(null);
+              }}
+            >
+              Отменить пару
+            </Button>
+          ) : (
+            <Button variant="outline" onClick={() => setPointPick('plan')}>
+              Добавить пару точек
+            </Button>
+          )}
+          <Button variant="outline" onClick={() => setPointPairs([])} disabled={pointPairs.length === 0}>
+            Очистить пары
+          </Button>
+          <Button onClick={handleFitPoints} disabled={pointPairs.length < MIN_ALIGNMENT_POINT_PAIRS}>
+            Выровнять по точкам
+          </Button>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Отмена
+          </Button>
+          <Button onClick={handleReplace} disabled={isRendering}>
+            {isRendering ? 'Подготовка...' : 'Заменить план'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default PlanReplaceDialog;
@@ -0,0 +1,45 @@
+import React, { useEffect, useRef } from 'react';
+import { Map, View } from 'ol';
+import Feature from 'ol/Feature';
+import VectorLayer from 'ol/layer/Vector';
+import VectorSource from 'ol/source/Vector';
+import { toLonLat } from 'ol/proj';
+import { Coordinate } from 'ol/coordinate';
+
+interface ReferenceLayerMapProps {
+  features: Feature[]; // In EPSG:3857, as read from a WGS84 GeoJSON file
+  onPick: (lonLat: Coordinate) => void;
+}
+
+// Small geographic map of a locally supplied reference layer (e.g. a building outline from a cadastral
+// export). A click snaps to the nearest point of its geometry, so control points land on known outlines.
+const ReferenceLayerMap: React.FC<ReferenceLayerMapProps> = ({ features, onPick }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!containerRef.current) return;
+
+    const source = new VectorSource({ features });
+    const map = new Map({
+      target: containerRef.current,
+      layers: [new VectorLayer({ source })],
+      view: new View(),
+    });
+    map.getView().fit(source.getExtent(), { padding: [16, 16, 16, 16] });
+
+    map.on('click', (event) => {
+      const feature = source.getClosestFeatureToCoordinate(event.coordinate);
+      const geometry = feature?.getGeometry();
+      if (!geometry) return;
+      onPick(toLonLat(geometry.getClosestPoint(event.coordinate)));
+    });
+
+    return () => {
+      map.setTarget(undefined);
+    };
+  }, [features, onPick]);
+
+  return <div ref={containerRef} className="w-full h-64 border rounded-md" />;
+};
+
+export default ReferenceLayerMap;
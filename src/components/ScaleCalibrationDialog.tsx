@@ -0,0 +1,67 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+
+interface ScaleCalibrationDialogProps {
+  measuredDistance: number | null; // Distance between the picked points at the current scale; open while set
+  onClose: () => void;
+  onConfirm: (realDistance: number) => void;
+}
+
+const ScaleCalibrationDialog: React.FC<ScaleCalibrationDialogProps> = ({ measuredDistance, onClose, onConfirm }) => {
+  const [realDistance, setRealDistance] = useState(0);
+
+  useEffect(() => {
+    if (measuredDistance !== null) {
+      setRealDistance(Number(measuredDistance.toFixed(2)));
+    }
+  }, [measuredDistance]);
+
+  return (
+    <Dialog open={measuredDistance !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Калибровка масштаба</DialogTitle>
+          <DialogDescription>
+            Введите реальное расстояние между отмеченными точками, например длину известного коридора или стены.
+            Размеры карты будут пересчитаны, а маяки, антенны и барьеры — перенесены в новый масштаб.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-col gap-2">
+          <Label htmlFor="calibrationDistance">Расстояние между точками (метры)</Label>
+          <Input
+            id="calibrationDistance"
+            type="number"
+            value={realDistance}
+            onChange={(e) => setRealDistance(Number(e.target.value))}
+            min="0"
+            step="any"
+            autoFocus
+          />
+          {measuredDistance !== null && (
+            <div className="text-sm text-gray-500 dark:text-gray-400">
+              При текущих размерах карты: {measuredDistance.toFixed(2)} м
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Отмена</Button>
+          <Button onClick={() => onConfirm(realDistance)} disabled={!(realDistance > 0)}>Применить</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ScaleCalibrationDialog;
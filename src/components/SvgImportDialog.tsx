@@ -0,0 +1,169 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { isShapeSelected, SvgDrawing, SvgSelection, svgToMeters } from '@/utils/svgImport';
+import { DEFAULT_WALL_THICKNESS, pathsToBarriers, VectorPlanImport } from '@/utils/vectorBasemap';
+
+interface SvgImportDialogProps {
+  drawing: SvgDrawing | null; // The dialog is open while a drawing is set
+  onClose: () => void;
+  onImport: (result: VectorPlanImport) => void;
+}
+
+const EMPTY_SELECTION: SvgSelection = { ids: [], classes: [], strokes: [] };
+
+const SvgImportDialog: React.FC<SvgImportDialogProps> = ({ drawing, onClose, onImport }) => {
+  const [metersPerUnit, setMetersPerUnit] = useState(0.01);
+  const [selection, setSelection] = useState<SvgSelection>(EMPTY_SELECTION);
+  const [wallThickness, setWallThickness] = useState(DEFAULT_WALL_THICKNESS);
+  const [isSolidClosedPaths, setIsSolidClosedPaths] = useState(false);
+
+  useEffect(() => {
+    if (drawing) {
+      setSelection(EMPTY_SELECTION);
+    }
+  }, [drawing]);
+
+  const converted = useMemo(
+    () => (drawing && metersPerUnit > 0 ? svgToMeters(drawing, metersPerUnit) : null),
+    [drawing, metersPerUnit],
+  );
+  const selectedCount = useMemo(
+    () => (drawing ? drawing.shapes.filter((shape) => isShapeSelected(shape, selection)).length : 0),
+    [drawing, selection],
+  );
+
+  const toggle = (key: keyof SvgSelection, value: string, checked: boolean) => {
+    setSelection((prev) => ({
+      ...prev,
+      [key]: checked ? [...prev[key], value] : prev[key].filter((v) => v !== value),
+    }));
+  };
+
+  const handleImport = () => {
+    if (!converted) return;
+    const barrierPaths = converted.shapes
+      .filter((shape) => isShapeSelected(shape, selection))
+      .map((shape) => shape.path);
+    onImport({
+      basemap: converted.basemap,
+      width: converted.width,
+      height: converted.height,
+      barriers: pathsToBarriers(barrierPaths, wallThickness, `barrier-svg-${Date.now()}`, isSolidClosedPaths),
+    });
+    onClose();
+  };
+
+  const renderOptions = (key: keyof SvgSelection, title: string, values: string[]) => (
+    values.length > 0 && (
+      <div className="flex flex-col gap-2">
+        <Label>{title}</Label>
+        <div className="max-h-40 overflow-y-auto border rounded-md p-2 flex flex-col gap-2">
+          {values.map((value) => (
+            <div key={value} className="flex items-center space-x-2">
+              <Checkbox
+                id={`svg-${key}-${value}`}
+                checked={selection[key].includes(value)}
+                onCheckedChange={(checked) => toggle(key, value, Boolean(checked))}
+              />
+              {key === 'strokes' && (
+                <span className="inline-block w-4 h-4 border rounded-sm" style={{ backgroundColor: value }} />
+              )}
+              <Label htmlFor={`svg-${key}-${value}`} className="break-all">{value}</Label>
+            </div>
+          ))}
+        </div>
+      </div>
+    )
+  );
+
+  return (
+    <Dialog open={drawing !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Импорт плана SVG</DialogTitle>
+          <DialogDescription>
+            Укажите масштаб чертежа и выберите элементы, контуры которых станут барьерами.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+          <div className="flex flex-col gap-2">
+            <Label htmlFor="svgScale">Метров в одной единице SVG</Label>
+            <Input
+              id="svgScale"
+              type="number"
+              value={metersPerUnit}
+              onChange={(e) => setMetersPerUnit(Number(e.target.value))}
+              min="0"
+              step="any"
+            />
+          </div>
+          <div className="flex flex-col gap-2">
+            <Label htmlFor="svgWidthMeters">Ширина плана (метры)</Label>
+            <Input
+              id="svgWidthMeters"
+              type="number"
+              value={converted ? Number(converted.width.toFixed(3)) : ''}
+              onChange={(e) => drawing && setMetersPerUnit(Number(e.target.value) / drawing.viewBox[2])}
+              min="0"
+              step="any"
+            />
+          </div>
+          <div className="flex flex-col gap-2">
+            <Label htmlFor="svgWallThickness">Толщина стен из линий (метры)</Label>
+            <Input
+              id="svgWallThickness"
+              type="number"
+              value={wallThickness}
+              onChange={(e) => setWallThickness(Number(e.target.value))}
+              min="0.01"
+              step="0.05"
+            />
+          </div>
+        </div>
+
+        {converted && drawing && (
+          <div className="text-sm">
+            viewBox: {drawing.viewBox[2]} × {drawing.viewBox[3]} ед. → карта{' '}
+            <b>{converted.width.toFixed(2)} × {converted.height.toFixed(2)} м</b>. Выбрано контуров: <b>{selectedCount}</b>
+          </div>
+        )}
+
+        <div className="flex items-center space-x-2">
+          <Checkbox
+            id="svgSolidClosedPaths"
+            checked={isSolidClosedPaths}
+            onCheckedChange={(checked) => setIsSolidClosedPaths(checked === true)}
+          />
+          <Label htmlFor="svgSolidClosedPaths">
+            Замкнутые контуры — сплошные препятствия (колонны, шахты), а не стены по периметру
+          </Label>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          {drawing && renderOptions('ids', 'По id', drawing.ids)}
+          {drawing && renderOptions('classes', 'По классу', drawing.classes)}
+          {drawing && renderOptions('strokes', 'По цвету линии', drawing.strokes)}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Отмена</Button>
+          <Button onClick={handleImport} disabled={!converted || wallThickness <= 0}>Импортировать</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SvgImportDialog;
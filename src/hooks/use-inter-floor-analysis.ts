@@ -0,0 +1,85 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { showError } from '@/utils/toast';
+import {
+  InterFloorAnalysis,
+  InterFloorError,
+  InterFloorRequest,
+  InterFloorWorkerMessage,
+} from '@/utils/interFloor';
+
+// Delay after the last change before the analysis is rerun, as for the signal grids
+const RECOMPUTE_DELAY = 300; // ms
+
+// Runs the analysis in a worker. Aborting terminates the worker at once.
+const analyzeInWorker = (
+  request: InterFloorRequest,
+  onProgress: (fraction: number) => void,
+  signal: AbortSignal,
+): Promise<InterFloorAnalysis> => new Promise((resolve, reject) => {
+  const worker = new Worker(new URL('../workers/interFloor.worker.ts', import.meta.url), { type: 'module' });
+
+  const fail = (error: unknown) => {
+    worker.terminate();
+    reject(error);
+  };
+  signal.addEventListener('abort', () => fail(signal.reason), { once: true });
+
+  worker.onmessage = (event: MessageEvent<InterFloorWorkerMessage>) => {
+    const message = event.data;
+    switch (message.type) {
+      case 'progress':
+        onProgress(message.done / message.total);
+        break;
+      case 'done':
+        worker.terminate();
+        resolve(message.analysis);
+        break;
+      case 'error':
+        fail(new InterFloorError(message.message));
+        break;
+    }
+  };
+  worker.onerror = (event) => fail(new InterFloorError(event.message || 'Ошибка при анализе сигнала между этажами.'));
+  worker.postMessage(request);
+});
+
+// Inter-floor analysis of a memoized request, rerun off the main thread whenever the request changes;
+// a newer request cancels the run in progress. A null request keeps the last analysis without running.
+export function useInterFloorAnalysis(request: InterFloorRequest | null) {
+  const [analysis, setAnalysis] = useState<InterFloorAnalysis | null>(null);
+  const [progress, setProgress] = useState<number | null>(null); // 0..1 while running
+  const controller = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    if (!request) return;
+    const current = new AbortController();
+    controller.current = current;
+
+    const timeout = window.setTimeout(() => {
+      setProgress(0);
+      analyzeInWorker(request, setProgress, current.signal).then((result) => {
+        setAnalysis(result);
+        setProgress(null);
+      }, (error) => {
+        if (current.signal.aborted) return;
+        console.error('Ошибка при анализе сигнала между этажами:', error);
+        showError('Не удалось проанализировать сигнал между этажами.');
+        setProgress(null);
+      });
+    }, RECOMPUTE_DELAY);
+
+    return () => {
+      window.clearTimeout(timeout);
+      current.abort();
+      setProgress(null);
+    };
+  }, [request]);
+
+  // Keeps showing the previous analysis
+  const cancel = useCallback(() => {
+    controller.current?.abort();
+    setProgress(null);
+  }, []);
+
+  return { analysis, progress, cancel };
+}
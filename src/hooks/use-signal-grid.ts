@@ -0,0 +1,85 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { showError } from '@/utils/toast';
+import {
+  SignalGrid,
+  SignalGridError,
+  SignalGridRequest,
+  SignalGridWorkerMessage,
+} from '@/utils/signalGrid';
+
+// Delay after the last change before a grid is recomputed, so dragging a slider starts one run
+const RECOMPUTE_DELAY = 300; // ms
+
+// Runs the computation in a worker. Aborting terminates the worker at once.
+const computeInWorker = (
+  request: SignalGridRequest,
+  onProgress: (fraction: number) => void,
+  signal: AbortSignal,
+): Promise<SignalGrid> => new Promise((resolve, reject) => {
+  const worker = new Worker(new URL('../workers/signalGrid.worker.ts', import.meta.url), { type: 'module' });
+
+  const fail = (error: unknown) => {
+    worker.terminate();
+    reject(error);
+  };
+  signal.addEventListener('abort', () => fail(signal.reason), { once: true });
+
+  worker.onmessage = (event: MessageEvent<SignalGridWorkerMessage>) => {
+    const message = event.data;
+    switch (message.type) {
+      case 'progress':
+        onProgress(message.done / message.total);
+        break;
+      case 'done':
+        worker.terminate();
+        resolve(message.grid);
+        break;
+      case 'error':
+        fail(new SignalGridError(message.message));
+        break;
+    }
+  };
+  worker.onerror = (event) => fail(new SignalGridError(event.message || 'Ошибка при расчете сетки сигнала.'));
+  worker.postMessage(request);
+});
+
+// Signal grid of a memoized request, recomputed off the main thread whenever the request changes;
+// a newer request cancels the run in progress. A null request keeps the last grid without computing.
+export function useSignalGrid(request: SignalGridRequest | null) {
+  const [grid, setGrid] = useState<SignalGrid | null>(null);
+  const [progress, setProgress] = useState<number | null>(null); // 0..1 while computing
+  const controller = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    if (!request) return;
+    const current = new AbortController();
+    controller.current = current;
+
+    const timeout = window.setTimeout(() => {
+      setProgress(0);
+      computeInWorker(request, setProgress, current.signal).then((result) => {
+        setGrid(result);
+        setProgress(null);
+      }, (error) => {
+        if (current.signal.aborted) return;
+        console.error('Ошибка при расчете сетки сигнала:', error);
+        showError('Не удалось рассчитать карту сигнала.');
+        setProgress(null);
+      });
+    }, RECOMPUTE_DELAY);
+
+    return () => {
+      window.clearTimeout(timeout);
+      current.abort();
+      setProgress(null);
+    };
+  }, [request]);
+
+  // Keeps showing the previous grid
+  const cancel = useCallback(() => {
+    controller.current?.abort();
+    setProgress(null);
+  }, []);
+
+  return { grid, progress, cancel };
+}
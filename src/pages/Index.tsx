@@ -1,67 +1,587 @@
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useRef, useEffect, useMemo } from 'react';
+import { PDFDocumentProxy } from 'pdfjs-dist';
+import { Extent } from 'ol/extent';
+import { Link, useNavigate, useParams } from 'react-router-dom';
 import { MadeWithDyad } from "@/components/made-with-dyad";
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import MapDisplay from '@/components/MapDisplay';
 import { showSuccess, showError } from '@/utils/toast';
+import DxfImportDialog from '@/components/DxfImportDialog';
+import SvgImportDialog from '@/components/SvgImportDialog';
+import PdfImportDialog, { PdfPlanImport } from '@/components/PdfImportDialog';
+import PlanReplaceDialog, { PlanReplacement } from '@/components/PlanReplaceDialog';
+import { AlignedPlanImage } from '@/utils/planReplacement';
+import {
+  Antenna,
+  Barrier,
+  BasemapAdjustments,
+  Beacon,
+  ControlPointGeoreference,
+  CoordinateSystem,
+  DEFAULT_BASEMAP_ADJUSTMENTS,
+  DEFAULT_COORDINATE_SYSTEM,
+  DEFAULT_PLACEMENT_SETTINGS,
+  DEFAULT_PLAN_ORIENTATION,
+  Floor,
+  OriginCorner,
+  PlacementSettings,
+  PlanOrientation,
+  VectorBasemap,
+} from '@/types/plan';
+import { parseProjectFile, ProjectData, ProjectFileError, serializeProject } from '@/utils/projectFile';
+import { createProject, getProject, saveProjectData } from '@/utils/projectStore';
+import { downloadText, readFileAsText } from '@/utils/download';
+import { DxfDrawing, DxfImportError, parseDxf } from '@/utils/dxfImport';
+import { parseSvg, SvgDrawing, SvgImportError } from '@/utils/svgImport';
+import { openPdf, PdfImportError } from '@/utils/pdfImport';
+import { VectorPlanImport } from '@/utils/vectorBasemap';
+import { CalibratedExtent, cropFloor, getScaleDistortion, rescaleFloor } from '@/utils/calibration';
+import { cropImage, extentToPixelRect, pixelRectToExtent } from '@/utils/basemapAdjustments';
+import { createImageUrl, ImageSize, loadImageBlob } from '@/utils/image';
+import { readImageSize } from '@/utils/tiledBasemap';
+import { ORIGIN_CORNER_LABELS, Y_AXIS_LABELS } from '@/utils/localProjection';
+import { fitGeoTransform } from '@/utils/georeference';
+import { createFloor, createNextFloor, getFloorLevel, sortFloors } from '@/utils/building';
+import FloorSwitcher from '@/components/FloorSwitcher';
+import InterFloorPanel from '@/components/InterFloorPanel';
+import {
+  DEFAULT_INTER_FLOOR_SETTINGS,
+  InterFloorRequest,
+  InterFloorSettings,
+  toInterFloorFloor,
+} from '@/utils/interFloor';
+import { useInterFloorAnalysis } from '@/hooks/use-inter-floor-analysis';
 
-interface Beacon {
-  id: string;
-  position: [number, number]; // [x, y] in map coordinates (meters)
-  rssi?: number;
-}
+const AUTOSAVE_DELAY_MS = 1000;
+const EXTENT_DIGITS = 2;
+// Below this the X/Y scale difference is rounding noise, not a distorted plan
+const DISTORTION_TOLERANCE_PERCENT = 0.5;
+
+const isRasterImageFile = (file: File) => !/\.(dxf|svg|pdf)$/i.test(file.name);
 
 const Index = () => {
+  // Set when the plan is opened from the library at /projects/:projectId
+  const { projectId } = useParams();
+  const navigate = useNavigate();
+  const [projectName, setProjectName] = useState<string | null>(null);
+  // Id of the library plan whose data is currently in state, so autosave never writes one plan into another
+  const [loadedProjectId, setLoadedProjectId] = useState<string | null>(null);
+  const isProjectLoaded = !projectId || loadedProjectId === projectId;
+  // The state below describes the active floor; `floors` holds every floor as it was last left
+  const [floors, setFloors] = useState<Floor[]>(() => [createFloor('Этаж 1')]);
+  const [activeFloorId, setActiveFloorId] = useState(floors[0].id);
   const [mapImageFile, setMapImageFile] = useState<File | null>(null);
   const [mapImageSrc, setMapImageSrc] = useState<string | null>(null);
+  const [vectorBasemap, setVectorBasemap] = useState<VectorBasemap | null>(null);
+  const [basemapAdjustments, setBasemapAdjustments] = useState<BasemapAdjustments>(DEFAULT_BASEMAP_ADJUSTMENTS);
+  const [dxfDrawing, setDxfDrawing] = useState<DxfDrawing | null>(null);
+  const [svgDrawing, setSvgDrawing] = useState<SvgDrawing | null>(null);
+  const [pdfDocument, setPdfDocument] = useState<PDFDocumentProxy | null>(null);
+  const [planReplacement, setPlanReplacement] = useState<PlanReplacement | null>(null);
   const [mapWidth, setMapWidth] = useState<number>(100); // Default width in meters
   const [mapHeight, setMapHeight] = useState<number>(100); // Default height in meters
+  // Natural pixel size of the picked raster file, or of the loaded plan image when no file is picked
+  const [pickedImageSize, setPickedImageSize] = useState<ImageSize | null>(null);
+  const [mapImageSize, setMapImageSize] = useState<ImageSize | null>(null);
+  const [isAspectRatioLocked, setIsAspectRatioLocked] = useState(true);
   const [beacons, setBeacons] = useState<Beacon[]>([]);
+  const [antennas, setAntennas] = useState<Antenna[]>([]);
+  const [barriers, setBarriers] = useState<Barrier[]>([]);
+  const [placementSettings, setPlacementSettings] = useState<PlacementSettings>(DEFAULT_PLACEMENT_SETTINGS);
+  const [coordinateSystem, setCoordinateSystem] = useState<CoordinateSystem>(DEFAULT_COORDINATE_SYSTEM);
+  const [georeference, setGeoreference] = useState<ControlPointGeoreference | null>(null);
+  const [orientation, setOrientation] = useState<PlanOrientation>(DEFAULT_PLAN_ORIENTATION);
+  const [interFloorSettings, setInterFloorSettings] = useState<InterFloorSettings>(DEFAULT_INTER_FLOOR_SETTINGS);
+  const [isInterFloorOverlayVisible, setIsInterFloorOverlayVisible] = useState(false);
+  // Bumped when a project is opened so MapDisplay remounts with the loaded state
+  const [projectRevision, setProjectRevision] = useState(0);
+  // Raster plans start in calibration mode, since the typed width and height are only a guess
+  const [isCalibrationPending, setIsCalibrationPending] = useState(false);
+  const projectFileInputRef = useRef<HTMLInputElement>(null);
+  const pendingAutosaveRef = useRef<{ id: string; data: ProjectData } | null>(null);
+  // JSON of the library plan as opened or last saved. Autosave skips states equal to it, so that just
+  // opening a plan does not move it to the top of the recent plans.
+  const savedSnapshotRef = useRef<string | null>(null);
+
+  const activeFloor = useMemo<Floor>(() => ({
+    ...floors.find((floor) => floor.id === activeFloorId)!,
+    mapImageSrc,
+    vectorBasemap,
+    basemapAdjustments,
+    mapWidth,
+    mapHeight,
+    beacons,
+    antennas,
+    barriers,
+    georeference,
+  }), [
+    floors,
+    activeFloorId,
+    mapImageSrc,
+    vectorBasemap,
+    basemapAdjustments,
+    mapWidth,
+    mapHeight,
+    beacons,
+    antennas,
+    barriers,
+    georeference,
+  ]);
+
+  const buildingFloors = useMemo(
+    () => floors.map((floor) => (floor.id === activeFloorId ? activeFloor : floor)),
+    [floors, activeFloorId, activeFloor],
+  );
+
+  const currentProject = useMemo<ProjectData>(() => ({
+    floors: buildingFloors,
+    settings: placementSettings,
+    coordinateSystem,
+    orientation,
+    interFloor: interFloorSettings,
+  }), [buildingFloors, placementSettings, coordinateSystem, orientation, interFloorSettings]);
+
+  // Only meaningful once the building has another floor to hear from
+  const interFloorRequest = useMemo((): InterFloorRequest | null => (buildingFloors.length > 1 ? {
+    floors: buildingFloors.map(toInterFloorFloor),
+    targetFloorId: activeFloorId,
+    settings: interFloorSettings,
+    model: placementSettings.propagation,
+  } : null), [buildingFloors, activeFloorId, interFloorSettings, placementSettings.propagation]);
+  const interFloor = useInterFloorAnalysis(interFloorRequest);
+  // The last analysis may be of another floor, or of a building that has since lost its other floors
+  const interFloorAnalysis = interFloorRequest && interFloor.analysis?.floorId === activeFloorId
+    ? interFloor.analysis
+    : null;
+
+  // Makes `floor` the active floor; MapDisplay remounts with its state
+  const loadFloor = useCallback((floor: Floor) => {
+    setActiveFloorId(floor.id);
+    setMapImageFile(null);
+    setPickedImageSize(null);
+    setMapImageSrc(floor.mapImageSrc);
+    setVectorBasemap(floor.vectorBasemap);
+    setBasemapAdjustments(floor.basemapAdjustments);
+    setMapWidth(floor.mapWidth);
+    setMapHeight(floor.mapHeight);
+    setBeacons(floor.beacons);
+    setAntennas(floor.antennas);
+    setBarriers(floor.barriers);
+    setGeoreference(floor.georeference);
+    setIsCalibrationPending(false);
+    setProjectRevision((revision) => revision + 1);
+  }, []);
+
+  const applyProject = useCallback((project: ProjectData) => {
+    setFloors(project.floors);
+    loadFloor(project.floors[0]);
+    setPlacementSettings(project.settings);
+    setCoordinateSystem(project.coordinateSystem);
+    setOrientation(project.orientation);
+    setInterFloorSettings(project.interFloor);
+  }, [loadFloor]);
+
+  useEffect(() => {
+    if (!projectId) return;
+
+    savedSnapshotRef.current = null;
+    let isCancelled = false;
+    getProject(projectId)
+      .then((stored) => {
+        if (isCancelled) return;
+        applyProject(stored.data);
+        setProjectName(stored.name);
+        setLoadedProjectId(stored.id);
+      })
+      .catch((error) => {
+        if (isCancelled) return;
+        console.error('Ошибка при загрузке плана из библиотеки:', error);
+        showError(error instanceof ProjectFileError ? error.message : 'Не удалось открыть план из библиотеки.');
+        navigate('/projects');
+      });
+    return () => {
+      isCancelled = true;
+    };
+  }, [projectId, applyProject, navigate]);
+
+  // Autosave library plans shortly after the last edit
+  useEffect(() => {
+    if (!projectId || !isProjectLoaded) return;
+    // The first state after opening is the plan as stored
+    if (savedSnapshotRef.current === null) {
+      savedSnapshotRef.current = JSON.stringify(currentProject);
+      return;
+    }
+
+    pendingAutosaveRef.current = { id: projectId, data: currentProject };
+    const timer = setTimeout(() => {
+      pendingAutosaveRef.current = null;
+      const snapshot = JSON.stringify(currentProject);
+      if (snapshot === savedSnapshotRef.current) return;
+      savedSnapshotRef.current = snapshot;
+      saveProjectData(projectId, currentProject).catch((error) => {
+        console.error('Ошибка автосохранения:', error);
+        showError('Не удалось автоматически сохранить план.');
+      });
+    }, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [projectId, isProjectLoaded, currentProject]);
+
+  // Flush an autosave that is still pending when leaving the plan
+  useEffect(() => {
+    if (!projectId) return;
+    return () => {
+      const pending = pendingAutosaveRef.current;
+      pendingAutosaveRef.current = null;
+      if (pending && JSON.stringify(pending.data) !== savedSnapshotRef.current) {
+        saveProjectData(pending.id, pending.data).catch((error) => {
+          console.error('Ошибка автосохранения:', error);
+        });
+      }
+    };
+  }, [projectId]);
+
+  useEffect(() => {
+    if (!mapImageSrc) {
+      setMapImageSize(null);
+      return;
+    }
+    let isCancelled = false;
+    loadImageBlob(mapImageSrc)
+      .then(readImageSize)
+      .then((size) => !isCancelled && setMapImageSize(size))
+      .catch((error) => console.error('Ошибка чтения размеров изображения:', error));
+    return () => {
+      isCancelled = true;
+    };
+  }, [mapImageSrc]);
+
+  const imageSize = pickedImageSize ?? mapImageSize;
+  const scaleDistortion = imageSize && mapWidth > 0 && mapHeight > 0
+    ? getScaleDistortion({ width: mapWidth, height: mapHeight }, imageSize)
+    : null;
+  // The bearing of a georeferenced plan follows from its control points
+  const isGeoreferenced = georeference !== null && fitGeoTransform(georeference) !== null;
+
+  const fitHeightToImage = (width: number, size: ImageSize) => {
+    setMapHeight(Number(((width * size.height) / size.width).toFixed(EXTENT_DIGITS)));
+  };
+
+  const handleMapWidthChange = (width: number) => {
+    setMapWidth(width);
+    if (isAspectRatioLocked && imageSize) {
+      fitHeightToImage(width, imageSize);
+    }
+  };
+
+  const handleMapHeightChange = (height: number) => {
+    setMapHeight(height);
+    if (isAspectRatioLocked && imageSize) {
+      setMapWidth(Number(((height * imageSize.width) / imageSize.height).toFixed(EXTENT_DIGITS)));
+    }
+  };
 
-  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+  const handleAspectRatioLockChange = (isLocked: boolean) => {
+    setIsAspectRatioLocked(isLocked);
+    if (isLocked && imageSize) {
+      fitHeightToImage(mapWidth, imageSize);
+    }
+  };
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
     if (event.target.files && event.target.files[0]) {
-      setMapImageFile(event.target.files[0]);
+      const file = event.target.files[0];
+      setMapImageFile(file);
+      setPickedImageSize(null);
       showSuccess('Файл карты выбран.');
+      if (!isRasterImageFile(file)) return;
+
+      try {
+        const size = await readImageSize(file);
+        setPickedImageSize(size);
+        if (isAspectRatioLocked) {
+          fitHeightToImage(mapWidth, size);
+        }
+      } catch (error) {
+        console.error('Ошибка чтения размеров изображения:', error);
+      }
     } else {
       setMapImageFile(null);
+      setPickedImageSize(null);
       setMapImageSrc(null);
     }
   };
 
-  const handleLoadMap = () => {
-    if (mapImageFile && mapWidth > 0 && mapHeight > 0) {
-      const reader = new FileReader();
-      reader.onloadend = () => {
-        setMapImageSrc(reader.result as string);
-        setBeacons([]); // Clear beacons when a new map is loaded
-        showSuccess('Карта загружена и готова к использованию!');
-      };
-      reader.onerror = () => {
-        showError('Ошибка при чтении файла карты.');
-      };
-      reader.readAsDataURL(mapImageFile);
+  const handleLoadMap = async () => {
+    if (mapImageFile && /\.dxf$/i.test(mapImageFile.name)) {
+      try {
+        setDxfDrawing(parseDxf(await readFileAsText(mapImageFile)));
+      } catch (error) {
+        if (error instanceof DxfImportError) {
+          showError(error.message);
+        } else {
+          console.error('Ошибка при чтении DXF:', error);
+          showError('Ошибка при чтении файла чертежа.');
+        }
+      }
+    } else if (mapImageFile && /\.svg$/i.test(mapImageFile.name)) {
+      try {
+        setSvgDrawing(parseSvg(await readFileAsText(mapImageFile)));
+      } catch (error) {
+        if (error instanceof SvgImportError) {
+          showError(error.message);
+        } else {
+          console.error('Ошибка при чтении SVG:', error);
+          showError('Ошибка при чтении файла SVG.');
+        }
+      }
+    } else if (mapImageFile && /\.pdf$/i.test(mapImageFile.name)) {
+      try {
+        setPdfDocument(await openPdf(await mapImageFile.arrayBuffer()));
+      } catch (error) {
+        if (error instanceof PdfImportError) {
+          showError(error.message);
+        } else {
+          console.error('Ошибка при чтении PDF:', error);
+          showError('Ошибка при чтении PDF-файла.');
+        }
+      }
+    } else if (mapImageFile && mapWidth > 0 && mapHeight > 0) {
+      // The file stays a Blob behind an object URL; large images are never read into a data URL
+      setMapImageSrc(createImageUrl(mapImageFile));
+      setVectorBasemap(null);
+      setBeacons([]); // Clear beacons when a new map is loaded
+      setGeoreference(null); // Control points refer to the previous plan
+      setIsCalibrationPending(true);
+      setProjectRevision((revision) => revision + 1);
+      showSuccess('Карта загружена! Откалибруйте масштаб по двум точкам с известным расстоянием.');
     } else {
       showError('Пожалуйста, выберите файл карты и укажите корректные размеры.');
     }
   };
 
+  // A new revision of the raster plan, aligned to the current one so that the layout is kept
+  const handleReplaceMap = async () => {
+    if (!mapImageFile || !isRasterImageFile(mapImageFile) || !mapImageSrc) {
+      showError('Выберите изображение новой версии плана.');
+      return;
+    }
+    try {
+      setPlanReplacement({
+        currentImageSrc: mapImageSrc,
+        plan: { width: mapWidth, height: mapHeight },
+        newImageSrc: createImageUrl(mapImageFile),
+        newImageSize: await readImageSize(mapImageFile),
+      });
+    } catch (error) {
+      console.error('Ошибка при чтении нового плана:', error);
+      showError('Ошибка при чтении файла карты.');
+    }
+  };
+
+  const handlePlanReplace = (result: AlignedPlanImage) => {
+    const replaced = cropFloor(activeFloor, result.extent, result.imageSrc);
+    setFloors(buildingFloors);
+    loadFloor(replaced);
+    showSuccess(`План заменен (${replaced.mapWidth.toFixed(2)} × ${replaced.mapHeight.toFixed(2)} м), расстановка сохранена.`);
+  };
+
+  const handlePdfImport = (result: PdfPlanImport) => {
+    setMapImageSrc(result.imageSrc);
+    setVectorBasemap(null);
+    setMapWidth(Number(result.width.toFixed(2)));
+    setMapHeight(Number(result.height.toFixed(2)));
+    setBeacons([]); // Clear beacons when a new map is loaded
+    setGeoreference(null); // Control points refer to the previous plan
+    setIsCalibrationPending(false);
+    setProjectRevision((revision) => revision + 1);
+    showSuccess('Страница PDF загружена как карта!');
+  };
+
+  const handleClosePdf = () => {
+    pdfDocument?.destroy();
+    setPdfDocument(null);
+  };
+
+  const handleVectorPlanImport = (result: VectorPlanImport) => {
+    setMapImageSrc(null);
+    setVectorBasemap(result.basemap);
+    setMapWidth(Number(result.width.toFixed(2)));
+    setMapHeight(Number(result.height.toFixed(2)));
+    setBeacons([]); // Clear beacons when a new map is loaded
+    setGeoreference(null); // Control points refer to the previous plan
+    setBarriers(result.barriers);
+    setIsCalibrationPending(false);
+    setProjectRevision((revision) => revision + 1);
+    showSuccess(`Чертеж загружен, создано барьеров: ${result.barriers.length}.`);
+  };
+
+  const handleCalibrate = (extent: CalibratedExtent) => {
+    const rescaled = rescaleFloor(activeFloor, extent);
+    setVectorBasemap(rescaled.vectorBasemap);
+    setMapWidth(rescaled.mapWidth);
+    setMapHeight(rescaled.mapHeight);
+    setBeacons(rescaled.beacons);
+    setAntennas(rescaled.antennas);
+    setBarriers(rescaled.barriers);
+    setGeoreference(rescaled.georeference);
+    setIsCalibrationPending(false);
+    setProjectRevision((revision) => revision + 1);
+  };
+
+  const handleCrop = async (extent: Extent) => {
+    if (!mapImageSrc) return;
+    try {
+      const size = await readImageSize(await loadImageBlob(mapImageSrc));
+      const plan = { width: mapWidth, height: mapHeight };
+      const rect = extentToPixelRect(extent, plan, size);
+      if (rect.width === 0 || rect.height === 0) {
+        showError('Рамка обрезки меньше одного пикселя изображения.');
+        return;
+      }
+      const cropped = cropFloor(activeFloor, pixelRectToExtent(rect, plan, size), await cropImage(mapImageSrc, rect));
+      setFloors(buildingFloors);
+      loadFloor(cropped);
+      showSuccess(`План обрезан до ${cropped.mapWidth.toFixed(2)} × ${cropped.mapHeight.toFixed(2)} м.`);
+    } catch (error) {
+      console.error('Ошибка при обрезке плана:', error);
+      showError('Не удалось обрезать план.');
+    }
+  };
+
   const handleBeaconsChange = useCallback((newBeacons: Beacon[]) => {
     setBeacons(newBeacons);
   }, []);
 
+  const handleAntennasChange = useCallback((newAntennas: Antenna[]) => {
+    setAntennas(newAntennas);
+  }, []);
+
+  const handleBarriersChange = useCallback((newBarriers: Barrier[]) => {
+    setBarriers(newBarriers);
+  }, []);
+
+  const handleSettingsChange = useCallback((newSettings: PlacementSettings) => {
+    setPlacementSettings(newSettings);
+  }, []);
+
+  const handleSelectFloor = (floorId: string) => {
+    if (floorId === activeFloorId) return;
+    setFloors(buildingFloors);
+    loadFloor(buildingFloors.find((floor) => floor.id === floorId)!);
+  };
+
+  const handleAddFloor = () => {
+    const floor = createNextFloor(buildingFloors);
+    setFloors(sortFloors([...buildingFloors, floor]));
+    loadFloor(floor);
+    showSuccess(`Добавлен этаж «${floor.name}». Загрузите для него план.`);
+  };
+
+  const handleFloorChange = (floorId: string, changes: Partial<Pick<Floor, 'name' | 'elevation'>>) => {
+    setFloors((prev) => sortFloors(prev.map((floor) => (floor.id === floorId ? { ...floor, ...changes } : floor))));
+  };
+
+  const handleDeleteFloor = (floorId: string) => {
+    const remaining = buildingFloors.filter((floor) => floor.id !== floorId);
+    if (remaining.length === 0) return;
+    setFloors(remaining);
+    // Deleting another floor keeps the one being edited on screen
+    if (floorId === activeFloorId) {
+      loadFloor(remaining[0]);
+    }
+    showSuccess('Этаж удален.');
+  };
+
+  const handleSaveProject = async () => {
+    try {
+      downloadText(await serializeProject(currentProject), `${projectName ?? 'project'}.json`, 'application/json');
+      showSuccess('Проект сохранен в файл.');
+    } catch (error) {
+      console.error('Ошибка при сохранении проекта:', error);
+      showError('Не удалось сохранить проект в файл.');
+    }
+  };
+
+  const handleSaveToLibrary = async () => {
+    try {
+      const id = await createProject(`План от ${new Date().toLocaleDateString('ru-RU')}`, currentProject);
+      showSuccess('План сохранен в библиотеку.');
+      navigate(`/projects/${id}`);
+    } catch (error) {
+      console.error('Ошибка при сохранении в библиотеку:', error);
+      showError('Не удалось сохранить план в библиотеку.');
+    }
+  };
+
+  const handleOpenProject = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      applyProject(parseProjectFile(await readFileAsText(file)));
+      showSuccess('Проект загружен!');
+    } catch (error) {
+      if (error instanceof ProjectFileError) {
+        showError(error.message);
+      } else {
+        console.error('Ошибка при открытии проекта:', error);
+        showError('Ошибка при чтении файла проекта.');
+      }
+    }
+  };
+
   return (
     <div className="min-h-screen flex flex-col items-center justify-center bg-gray-100 dark:bg-gray-900 p-4">
       <Card className="w-full shadow-lg"> {/* Изменено: удалено max-w-4xl */}
         <CardHeader>
           <CardTitle className="text-2xl font-bold text-center">Управление картами и BLE-маяками</CardTitle>
+          {projectName && (
+            <div className="text-center text-gray-500 dark:text-gray-400">
+              {projectName} · изменения сохраняются автоматически
+            </div>
+          )}
         </CardHeader>
         <CardContent className="space-y-6">
+          <div className="flex flex-wrap justify-end gap-2">
+            <Button variant="outline" asChild className="mr-auto">
+              <Link to="/projects">Библиотека планов</Link>
+            </Button>
+            {!projectId && (
+              <Button variant="outline" onClick={handleSaveToLibrary}>
+                Сохранить в библиотеку
+              </Button>
+            )}
+            <Button variant="outline" onClick={() => projectFileInputRef.current?.click()}>
+              Открыть проект
+            </Button>
+            <Button variant="secondary" onClick={handleSaveProject}>
+              Сохранить проект
+            </Button>
+            <input
+              ref={projectFileInputRef}
+              type="file"
+              accept=".json,application/json"
+              className="hidden"
+              onChange={handleOpenProject}
+            />
+          </div>
           <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
             <div className="space-y-2">
-              <Label htmlFor="mapImage">Загрузить файл карты (изображение)</Label>
-              <Input id="mapImage" type="file" accept="image/*" onChange={handleFileChange} />
+              <Label htmlFor="mapImage">Загрузить файл карты (изображение, PDF, DXF или SVG)</Label>
+              <Input id="mapImage" type="file" accept="image/*,.pdf,.dxf,.svg" onChange={handleFileChange} />
             </div>
             <div className="space-y-2">
               <Label htmlFor="mapWidth">Ширина карты (метры)</Label>
@@ -69,7 +589,7 @@ const Index = () => {
                 id="mapWidth"
                 type="number"
                 value={mapWidth}
-                onChange={(e) => setMapWidth(Number(e.target.value))}
+                onChange={(e) => handleMapWidthChange(Number(e.target.value))}
                 min="1"
               />
             </div>
@@ -79,22 +599,164 @@ const Index = () => {
                 id="mapHeight"
                 type="number"
                 value={mapHeight}
-                onChange={(e) => setMapHeight(Number(e.target.value))}
+                onChange={(e) => handleMapHeightChange(Number(e.target.value))}
                 min="1"
               />
             </div>
-            <Button onClick={handleLoadMap} className="md:col-span-3">
+            {imageSize && (
+              <div className="md:col-span-3 flex flex-col sm:flex-row gap-2 sm:gap-6 sm:items-center text-sm">
+                <div className="flex items-center space-x-2">
+                  <Checkbox
+                    id="lockAspectRatio"
+                    checked={isAspectRatioLocked}
+                    onCheckedChange={(checked) => handleAspectRatioLockChange(Boolean(checked))}
+                  />
+                  <Label htmlFor="lockAspectRatio">
+                    Сохранять пропорции изображения ({imageSize.width} × {imageSize.height} пкс)
+                  </Label>
+                </div>
+                {scaleDistortion && scaleDistortion.difference > DISTORTION_TOLERANCE_PERCENT && (
+                  <div className="text-red-600 dark:text-red-400">
+                    План искажен: масштаб по X {(scaleDistortion.metersPerPixelX * 100).toFixed(2)} см/пкс,
+                    по Y {(scaleDistortion.metersPerPixelY * 100).toFixed(2)} см/пкс
+                    (различие {scaleDistortion.difference.toFixed(1)}%)
+                  </div>
+                )}
+              </div>
+            )}
+            <div className="md:col-span-3 grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+              <div className="space-y-2">
+                <Label>Начало координат чертежа</Label>
+                <Select
+                  value={coordinateSystem.origin}
+                  onValueChange={(origin) => setCoordinateSystem((prev) => ({ ...prev, origin: origin as OriginCorner }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(ORIGIN_CORNER_LABELS).map(([origin, label]) => (
+                      <SelectItem key={origin} value={origin}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Направление оси Y</Label>
+                <Select
+                  value={coordinateSystem.yAxis}
+                  onValueChange={(yAxis) => setCoordinateSystem((prev) => ({ ...prev, yAxis: yAxis as CoordinateSystem['yAxis'] }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(Y_AXIS_LABELS).map(([yAxis, label]) => (
+                      <SelectItem key={yAxis} value={yAxis}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="planRotation">Поворот плана на экране (°)</Label>
+                <Input
+                  id="planRotation"
+                  type="number"
+                  value={orientation.rotation}
+                  onChange={(e) => setOrientation((prev) => ({ ...prev, rotation: Number(e.target.value) }))}
+                  step="any"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="northBearing">
+                  Азимут оси Y плана (° от севера){isGeoreferenced && ', по геопривязке'}
+                </Label>
+                <Input
+                  id="northBearing"
+                  type="number"
+                  value={orientation.northBearing}
+                  onChange={(e) => setOrientation((prev) => ({ ...prev, northBearing: Number(e.target.value) }))}
+                  disabled={isGeoreferenced}
+                  step="any"
+                />
+              </div>
+              <p className="sm:col-span-2 lg:col-span-4 text-sm text-gray-500 dark:text-gray-400">
+                От правого угла ось X направлена влево. Система координат чертежа применяется к координатам
+                на экране, в CSV и в отчете об установке; GeoJSON и SVG экспортируются в координатах карты
+                (начало в левом нижнем углу, ось Y вверх), IMDF — в WGS84.
+              </p>
+            </div>
+            <Button onClick={handleLoadMap} className={mapImageSrc ? 'md:col-span-2' : 'md:col-span-3'}>
               Загрузить карту
             </Button>
+            {mapImageSrc && (
+              <Button
+                onClick={handleReplaceMap}
+                variant="outline"
+                disabled={!mapImageFile || !isRasterImageFile(mapImageFile)}
+              >
+                Заменить план с сохранением расстановки
+              </Button>
+            )}
           </div>
 
-          {mapImageSrc && mapWidth > 0 && mapHeight > 0 ? (
+          {isProjectLoaded && (
+            <FloorSwitcher
+              floors={buildingFloors}
+              activeFloorId={activeFloorId}
+              onSelect={handleSelectFloor}
+              onAdd={handleAddFloor}
+              onChange={handleFloorChange}
+              onDelete={handleDeleteFloor}
+            />
+          )}
+
+          {isProjectLoaded && interFloorRequest && (
+            <InterFloorPanel
+              settings={interFloorSettings}
+              onSettingsChange={setInterFloorSettings}
+              analysis={interFloorAnalysis}
+              progress={interFloor.progress}
+              onCancel={interFloor.cancel}
+              floorName={activeFloor.name}
+              floorArea={mapWidth * mapHeight}
+              isOverlayVisible={isInterFloorOverlayVisible}
+              onOverlayVisibleChange={setIsInterFloorOverlayVisible}
+            />
+          )}
+
+          {!isProjectLoaded ? (
+            <div className="text-center text-gray-500 dark:text-gray-400 py-8">
+              Загрузка плана...
+            </div>
+          ) : (mapImageSrc || vectorBasemap) && mapWidth > 0 && mapHeight > 0 ? (
             <MapDisplay
+              key={projectRevision}
               mapImageSrc={mapImageSrc}
+              vectorBasemap={vectorBasemap}
               mapWidthMeters={mapWidth}
               mapHeightMeters={mapHeight}
               onBeaconsChange={handleBeaconsChange}
+              onAntennasChange={handleAntennasChange}
+              onBarriersChange={handleBarriersChange}
+              onSettingsChange={handleSettingsChange}
               initialBeacons={beacons}
+              initialAntennas={antennas}
+              initialBarriers={barriers}
+              initialSettings={placementSettings}
+              projectName={projectName ?? undefined}
+              onCalibrate={handleCalibrate}
+              initialCalibrationMode={isCalibrationPending}
+              coordinateSystem={coordinateSystem}
+              georeference={georeference}
+              onGeoreferenceChange={setGeoreference}
+              orientation={orientation}
+              onOrientationChange={setOrientation}
+              floor={getFloorLevel(buildingFloors, activeFloorId)}
+              interFloorAnalysis={isInterFloorOverlayVisible ? interFloorAnalysis : null}
+              basemapAdjustments={basemapAdjustments}
+              onBasemapAdjustmentsChange={setBasemapAdjustments}
+              onCrop={handleCrop}
             />
           ) : (
             <div className="text-center text-gray-500 dark:text-gray-400 py-8">
@@ -103,6 +765,14 @@ const Index = () => {
           )}
         </CardContent>
       </Card>
+      <DxfImportDialog drawing={dxfDrawing} onClose={() => setDxfDrawing(null)} onImport={handleVectorPlanImport} />
+      <SvgImportDialog drawing={svgDrawing} onClose={() => setSvgDrawing(null)} onImport={handleVectorPlanImport} />
+      <PdfImportDialog pdf={pdfDocument} onClose={handleClosePdf} onImport={handlePdfImport} />
+      <PlanReplaceDialog
+        replacement={planReplacement}
+        onClose={() => setPlanReplacement(null)}
+        onReplace={handlePlanReplace}
+      />
       <MadeWithDyad />
     </div>
   );
@@ -0,0 +1,223 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { format } from 'date-fns';
+import { ru } from 'date-fns/locale';
+import { MadeWithDyad } from "@/components/made-with-dyad";
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { showSuccess, showError } from '@/utils/toast';
+import {
+  createProject,
+  deleteProject,
+  duplicateProject,
+  listProjects,
+  ProjectSummary,
+  renameProject,
+} from '@/utils/projectStore';
+
+type NameDialogState =
+  | { mode: 'create' }
+  | { mode: 'rename'; project: ProjectSummary }
+  | { mode: 'duplicate'; project: ProjectSummary };
+
+const nameDialogTitles: Record<NameDialogState['mode'], string> = {
+  create: 'Новый план',
+  rename: 'Переименовать план',
+  duplicate: 'Дублировать план',
+};
+
+const Projects = () => {
+  const navigate = useNavigate();
+  const [projects, setProjects] = useState<ProjectSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [nameDialog, setNameDialog] = useState<NameDialogState | null>(null);
+  const [nameInput, setNameInput] = useState('');
+  const [projectToDelete, setProjectToDelete] = useState<ProjectSummary | null>(null);
+
+  const refreshProjects = useCallback(async () => {
+    try {
+      setProjects(await listProjects());
+    } catch (error) {
+      console.error('Ошибка при чтении библиотеки проектов:', error);
+      showError('Не удалось прочитать сохраненные планы.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    refreshProjects();
+  }, [refreshProjects]);
+
+  const openNameDialog = (state: NameDialogState) => {
+    setNameDialog(state);
+    if (state.mode === 'create') {
+      setNameInput(`План ${projects.length + 1}`);
+    } else if (state.mode === 'rename') {
+      setNameInput(state.project.name);
+    } else {
+      setNameInput(`${state.project.name} (копия)`);
+    }
+  };
+
+  const handleNameDialogSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    const name = nameInput.trim();
+    if (!nameDialog || !name) return;
+
+    try {
+      if (nameDialog.mode === 'create') {
+        const id = await createProject(name);
+        navigate(`/projects/${id}`);
+        return;
+      }
+      if (nameDialog.mode === 'rename') {
+        await renameProject(nameDialog.project.id, name);
+        showSuccess('План переименован.');
+      } else {
+        await duplicateProject(nameDialog.project.id, name);
+        showSuccess('Копия плана создана.');
+      }
+      setNameDialog(null);
+      refreshProjects();
+    } catch (error) {
+      console.error('Ошибка при сохранении плана:', error);
+      showError('Не удалось сохранить план.');
+    }
+  };
+
+  const handleDeleteConfirm = async () => {
+    if (!projectToDelete) return;
+    try {
+      await deleteProject(projectToDelete.id);
+      showSuccess('План удален.');
+      refreshProjects();
+    } catch (error) {
+      console.error('Ошибка при удалении плана:', error);
+      showError('Не удалось удалить план.');
+    } finally {
+      setProjectToDelete(null);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex flex-col items-center bg-gray-100 dark:bg-gray-900 p-4">
+      <Card className="w-full shadow-lg">
+        <CardHeader>
+          <CardTitle className="text-2xl font-bold text-center">Библиотека планов</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="flex flex-wrap justify-between gap-2">
+            <Button variant="outline" asChild>
+              <Link to="/">Быстрый план без сохранения</Link>
+            </Button>
+            <Button onClick={() => openNameDialog({ mode: 'create' })}>
+              Создать план
+            </Button>
+          </div>
+
+          {isLoading ? (
+            <div className="text-center text-gray-500 dark:text-gray-400 py-8">Загрузка планов...</div>
+          ) : projects.length === 0 ? (
+            <div className="text-center text-gray-500 dark:text-gray-400 py-8">
+              Сохраненных планов пока нет. Создайте первый план, чтобы начать.
+            </div>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+              {projects.map((project) => (
+                <div key={project.id} className="p-4 border rounded-md flex flex-col gap-3">
+                  <div>
+                    <Link to={`/projects/${project.id}`} className="text-lg font-semibold hover:underline">
+                      {project.name}
+                    </Link>
+                    <div className="text-sm text-gray-500 dark:text-gray-400">
+                      Изменен: {format(project.updatedAt, 'd MMMM yyyy, HH:mm', { locale: ru })}
+                    </div>
+                    <div className="text-sm text-gray-500 dark:text-gray-400">
+                      {project.hasMap ? 'Карта загружена' : 'Карта не загружена'} · этажей: {project.floorCount} · маяков: {project.beaconCount} · антенн: {project.antennaCount}
+                    </div>
+                  </div>
+                  <div className="flex flex-wrap gap-2">
+                    <Button size="sm" asChild>
+                      <Link to={`/projects/${project.id}`}>Открыть</Link>
+                    </Button>
+                    <Button size="sm" variant="outline" onClick={() => openNameDialog({ mode: 'rename', project })}>
+                      Переименовать
+                    </Button>
+                    <Button size="sm" variant="outline" onClick={() => openNameDialog({ mode: 'duplicate', project })}>
+                      Дублировать
+                    </Button>
+                    <Button size="sm" variant="destructive" onClick={() => setProjectToDelete(project)}>
+                      Удалить
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={nameDialog !== null} onOpenChange={(open) => !open && setNameDialog(null)}>
+        <DialogContent>
+          <form onSubmit={handleNameDialogSubmit} className="space-y-4">
+            <DialogHeader>
+              <DialogTitle>{nameDialog && nameDialogTitles[nameDialog.mode]}</DialogTitle>
+            </DialogHeader>
+            <div className="space-y-2">
+              <Label htmlFor="projectName">Название плана</Label>
+              <Input
+                id="projectName"
+                value={nameInput}
+                onChange={(e) => setNameInput(e.target.value)}
+                autoFocus
+              />
+            </div>
+            <DialogFooter>
+              <Button type="submit" disabled={!nameInput.trim()}>
+                Сохранить
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={projectToDelete !== null} onOpenChange={(open) => !open && setProjectToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Удалить план «{projectToDelete?.name}»?</AlertDialogTitle>
+            <AlertDialogDescription>
+              План, карта и все размещенные устройства будут удалены без возможности восстановления.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Отмена</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDeleteConfirm}>Удалить</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+      <MadeWithDyad />
+    </div>
+  );
+};
+
+export default Projects;
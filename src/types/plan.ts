@@ -0,0 +1,166 @@
+import { Coordinate } from 'ol/coordinate';
+
+export interface Beacon {
+  id: string;
+  position: Coordinate; // [x, y] in map coordinates (meters)
+  rssi?: number;
+  extra?: Record<string, string>; // Additional attributes imported from vendor spreadsheets
+}
+
+export interface Antenna {
+  id: string;
+  position: Coordinate; // [x, y] in map coordinates (meters)
+  height: number; // Height of installation in meters
+  angle: number; // Angle of algorithm operation (degrees)
+  range: number; // Coverage radius in meters
+  extra?: Record<string, string>; // Additional attributes imported from vendor spreadsheets
+}
+
+export type BarrierMaterial = 'drywall' | 'glass' | 'brick' | 'concrete' | 'metal' | 'custom';
+
+export interface Barrier {
+  id: string;
+  coordinates: Coordinate[][]; // Polygon rings in map coordinates (meters)
+  material: BarrierMaterial;
+  attenuation: number; // dB lost by a signal passing through the wall once
+}
+
+// Typical 2.4 GHz losses; metal stands for shelving and racks
+export const BARRIER_MATERIAL_ATTENUATION: Record<BarrierMaterial, number> = {
+  drywall: 3,
+  glass: 2,
+  brick: 8,
+  concrete: 15,
+  metal: 20,
+  custom: 10,
+};
+
+export const DEFAULT_BARRIER_MATERIAL: BarrierMaterial = 'concrete';
+
+// Radio parameters of the log-distance path-loss model used for coverage of all devices.
+export interface PropagationModel {
+  txPower: number; // dBm, transmit power of antennas
+  rssiAt1m: number; // dBm, measured 1 m from an antenna transmitting at txPower
+  pathLossExponent: number; // 2 in free space, about 2.5–4 indoors
+  sensitivity: number; // dBm, weakest signal the receivers still use
+}
+
+export const DEFAULT_PROPAGATION_MODEL: PropagationModel = {
+  txPower: 0,
+  rssiAt1m: -59,
+  pathLossExponent: 2.5,
+  sensitivity: -90,
+};
+
+export interface PlacementSettings {
+  autoRssi: number; // dBm, RSSI at 1 m of newly placed beacons
+  autoAntennaHeight: number; // meters
+  autoAntennaAngle: number; // degrees
+  propagation: PropagationModel;
+}
+
+export const DEFAULT_PLACEMENT_SETTINGS: PlacementSettings = {
+  autoRssi: -59,
+  autoAntennaHeight: 2,
+  autoAntennaAngle: 0,
+  propagation: DEFAULT_PROPAGATION_MODEL,
+};
+
+export interface VectorPath {
+  layer: string; // Source layer of the drawing (CAD layer, SVG group)
+  coordinates: Coordinate[]; // Vertices in map coordinates (meters)
+  closed: boolean;
+  color?: string; // CSS color of the original stroke
+}
+
+// Floor plan imported from a vector drawing, rendered instead of a raster image
+export interface VectorBasemap {
+  source: 'dxf' | 'svg';
+  layers: string[];
+  paths: VectorPath[];
+}
+
+// Places the local plan on the Earth for exports to geographic formats
+export interface Georeference {
+  originLon: number; // WGS84 longitude of map point [0, 0], degrees
+  originLat: number; // WGS84 latitude of map point [0, 0], degrees
+  bearing: number; // Direction of the map's y axis, degrees clockwise from true north
+}
+
+export const DEFAULT_GEOREFERENCE: Georeference = {
+  originLon: 0,
+  originLat: 0,
+  bearing: 0,
+};
+
+// A point of the plan whose geographic position the user knows, e.g. a building corner
+export interface ControlPoint {
+  id: string;
+  position: Coordinate; // [x, y] in map coordinates (meters)
+  lonLat: Coordinate; // [longitude, latitude], WGS84 degrees
+}
+
+// Georeferencing fitted from control points: similarity keeps the plan's shape (shift, rotation,
+// uniform scale), affine also absorbs skew and unequal X/Y scale of a distorted scan.
+export interface ControlPointGeoreference {
+  method: 'similarity' | 'affine';
+  controlPoints: ControlPoint[];
+}
+
+export type OriginCorner = 'bottom-left' | 'top-left' | 'top-right' | 'bottom-right';
+
+// How plan coordinates are shown and exchanged, to match the installer's CAD drawings.
+// Internally the map keeps the origin in the bottom-left corner with y pointing up.
+export interface CoordinateSystem {
+  origin: OriginCorner;
+  yAxis: 'up' | 'down';
+}
+
+export const DEFAULT_COORDINATE_SYSTEM: CoordinateSystem = {
+  origin: 'bottom-left',
+  yAxis: 'up',
+};
+
+// Angles in degrees clockwise. The plan itself stays in the building's frame; only the view is rotated.
+export interface PlanOrientation {
+  rotation: number; // view rotation
+  northBearing: number; // direction of the plan's y axis from true north, unless georeferenced
+}
+
+export const DEFAULT_PLAN_ORIENTATION: PlanOrientation = {
+  rotation: 0,
+  northBearing: 0,
+};
+
+// Display adjustments of the plan image, so that placed devices stand out against colourful scans.
+export interface BasemapAdjustments {
+  opacity: number; // percent
+  grayscale: number; // percent
+  brightness: number; // percent, 100 keeps the image as is
+  contrast: number; // percent, 100 keeps the image as is
+  invert: boolean;
+}
+
+export const DEFAULT_BASEMAP_ADJUSTMENTS: BasemapAdjustments = {
+  opacity: 100,
+  grayscale: 0,
+  brightness: 100,
+  contrast: 100,
+  invert: false,
+};
+
+// One storey of a building: its own plan, extent and everything placed on it.
+export interface Floor {
+  id: string;
+  name: string;
+  elevation: number; // meters, floor level relative to the building's ground floor
+  mapImageSrc: string | null;
+  vectorBasemap: VectorBasemap | null; // Set instead of mapImageSrc for plans imported from drawings
+  basemapAdjustments: BasemapAdjustments;
+  mapWidth: number; // meters
+  mapHeight: number; // meters
+  beacons: Beacon[];
+  antennas: Antenna[];
+  barriers: Barrier[];
+  georeference: ControlPointGeoreference | null;
+}
@@ -0,0 +1,123 @@
+import { Coordinate } from 'ol/coordinate';
+import { DEFAULT_PROPAGATION_MODEL } from '@/types/plan';
+import { CellColor } from '@/utils/gridImage';
+import { getCellArea, SignalGrid } from '@/utils/signalGrid';
+
+// Which antenna serves each location and how many antennas overlap there. A cell is served by its
+// strongest antenna when that signal reaches the threshold; every antenna at or above it overlaps.
+
+export type AntennaCoverageView = 'bestServer' | 'overlap';
+
+export interface AntennaCoverageSettings {
+  isVisible: boolean;
+  view: AntennaCoverageView;
+  threshold: number; // dBm, weakest signal that still serves a location
+  showHandoffs: boolean; // Boundaries between the areas of neighbouring antennas
+}
+
+export const DEFAULT_ANTENNA_COVERAGE_SETTINGS: AntennaCoverageSettings = {
+  isVisible: false,
+  view: 'bestServer',
+  threshold: DEFAULT_PROPAGATION_MODEL.sensitivity,
+  showHandoffs: true,
+};
+
+export const ANTENNA_COVERAGE_CELL_SIZE = 1; // meters, coarser on large plans
+
+// Colours of served areas, repeated when there are more antennas; neighbours rarely share one
+const SERVER_COLORS: [number, number, number][] = [
+  [37, 99, 235],
+  [220, 38, 38],
+  [22, 163, 74],
+  [234, 179, 8],
+  [147, 51, 234],
+  [8, 145, 178],
+  [234, 88, 12],
+  [219, 39, 119],
+  [101, 163, 13],
+  [79, 70, 229],
+];
+export const UNSERVED_COLOR: [number, number, number] = [156, 163, 175];
+
+export const getServerColor = (index: number) => SERVER_COLORS[index % SERVER_COLORS.length];
+
+// Levels 0, 1, 2, 3 and 4 or more antennas heard
+export const MAX_OVERLAP_LEVEL = 4;
+export const OVERLAP_COLORS: [number, number, number][] = [
+  UNSERVED_COLOR,
+  [22, 163, 74],
+  [132, 204, 22],
+  [249, 115, 22],
+  [220, 38, 38],
+];
+
+export const getOverlapLevel = (heard: number): number => Math.min(heard, MAX_OVERLAP_LEVEL);
+
+const getServer = (grid: SignalGrid, threshold: number, index: number): number =>
+  grid.rssi[index] >= threshold ? grid.strongest[index] : -1;
+
+export const getBestServerCellColor = (grid: SignalGrid, threshold: number) => (index: number): CellColor => {
+  if (Number.isNaN(grid.rssi[index])) return null;
+  const server = getServer(grid, threshold, index);
+  return server < 0 ? UNSERVED_COLOR : getServerColor(server);
+};
+
+export const getOverlapCellColor = (grid: SignalGrid) => (index: number): CellColor =>
+  Number.isNaN(grid.rssi[index]) ? null : OVERLAP_COLORS[getOverlapLevel(grid.heard[index])];
+
+export interface AntennaCoverageStats {
+  servedArea: Record<string, number>; // square meters per antenna id
+  unservedArea: number; // square meters outside barriers served by no antenna
+  overlapShares: number[]; // Of the area outside barriers per overlap level, from 0 antennas up
+}
+
+// Expects a grid of antennas given with their ids, counted at the same threshold.
+export const getAntennaCoverageStats = (grid: SignalGrid, threshold: number): AntennaCoverageStats => {
+  const servedArea: Record<string, number> = Object.fromEntries(grid.transmitterIds.map((id) => [id, 0]));
+  const overlapArea = new Array<number>(MAX_OVERLAP_LEVEL + 1).fill(0);
+  let unservedArea = 0;
+  let openArea = 0;
+
+  grid.rssi.forEach((rssi, index) => {
+    if (Number.isNaN(rssi)) return;
+    const cellArea = getCellArea(grid, index);
+    openArea += cellArea;
+    overlapArea[getOverlapLevel(grid.heard[index])] += cellArea;
+    const server = getServer(grid, threshold, index);
+    if (server < 0) {
+      unservedArea += cellArea;
+    } else {
+      servedArea[grid.transmitterIds[server]] += cellArea;
+    }
+  });
+
+  return {
+    servedArea,
+    unservedArea,
+    overlapShares: overlapArea.map((area) => (openArea > 0 ? area / openArea : 0)),
+  };
+};
+
+// Cell edges between two served cells of different antennas, as two-point lines in map meters.
+export const getHandoffBoundaries = (grid: SignalGrid, threshold: number): Coordinate[][] => {
+  const { columns, rows, cellSize } = grid;
+  const lines: Coordinate[][] = [];
+  for (let row = 0; row < rows; row++) {
+    for (let column = 0; column < columns; column++) {
+      const index = row * columns + column;
+      const server = getServer(grid, threshold, index);
+      if (server < 0) continue;
+      const right = column + 1 < columns ? getServer(grid, threshold, index + 1) : -1;
+      if (right >= 0 && right !== server) {
+        const x = (column + 1) * cellSize;
+        lines.push([[x, row * cellSize], [x, (row + 1) * cellSize]]);
+      }
+      const above = row + 1 < rows ? getServer(grid, threshold, index + columns) : -1;
+      if (above >= 0 && above !== server) {
+        const y = (row + 1) * cellSize;
+        lines.push([[column * cellSize, y], [(column + 1) * cellSize, y]]);
+      }
+    }
+  }
+  return lines;
+};
@@ -0,0 +1,65 @@
+import { Coordinate } from 'ol/coordinate';
+import { PropagationModel } from '@/types/plan';
+import { getCoverageRadius, getRssiAt, Transmitter, Wall } from '@/utils/propagation';
+
+// Automatic placement of devices of one kind: a square grid at the free-space spacing first, then
+// extra devices wherever walls leave the signal below the receiver sensitivity.
+
+export interface PlacementArea {
+  width: number; // meters
+  height: number; // meters
+  isBlocked: (point: Coordinate) => boolean; // Inside a barrier, no device and no receiver there
+}
+
+// Every device is mounted the same way; only the position differs
+export type TransmitterTemplate = Omit<Transmitter, 'position'>;
+
+const MIN_SAMPLE_STEP = 0.5; // meters
+const SAMPLES_PER_STEP = 4;
+
+export const getGridPositions = (area: PlacementArea, step: number): Coordinate[] => {
+  const positions: Coordinate[] = [];
+  for (let y = step / 2; y < area.height; y += step) {
+    for (let x = step / 2; x < area.width; x += step) {
+      if (!area.isBlocked([x, y])) positions.push([x, y]);
+    }
+  }
+  return positions;
+};
+
+// Whether some device at `positions` reaches `point` above the sensitivity, walls included.
+const isCovered = (
+  model: PropagationModel,
+  template: TransmitterTemplate,
+  positions: Coordinate[],
+  walls: Wall[],
+  freeRadius: number,
+  point: Coordinate,
+): boolean =>
+  positions.some((position) =>
+    Math.hypot(point[0] - position[0], point[1] - position[1]) <= freeRadius
+    && getRssiAt(model, { ...template, position }, point, walls) >= model.sensitivity);
+
+// Grid positions plus one more device at each sample point still out of coverage, scanning the
+// plan row by row. Without walls the grid alone covers everything and nothing is added.
+export const placeWithWalls = (
+  model: PropagationModel,
+  template: TransmitterTemplate,
+  area: PlacementArea,
+  walls: Wall[],
+  step: number,
+): Coordinate[] => {
+  const positions = getGridPositions(area, step);
+  if (walls.length === 0) return positions;
+
+  const freeRadius = getCoverageRadius(model, template.rssiAt1m, template.mountHeight);
+  const sampleStep = Math.max(MIN_SAMPLE_STEP, step / SAMPLES_PER_STEP);
+  for (let y = sampleStep / 2; y < area.height; y += sampleStep) {
+    for (let x = sampleStep / 2; x < area.width; x += sampleStep) {
+      const point: Coordinate = [x, y];
+      if (area.isBlocked(point) || isCovered(model, template, positions, walls, freeRadius, point)) continue;
+      positions.push(point);
+    }
+  }
+  return positions;
+};
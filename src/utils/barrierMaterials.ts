@@ -0,0 +1,29 @@
+import { BARRIER_MATERIAL_ATTENUATION, Barrier, BarrierMaterial, DEFAULT_BARRIER_MATERIAL } from '@/types/plan';
+
+export const BARRIER_MATERIAL_LABELS: Record<BarrierMaterial, string> = {
+  drywall: 'Гипсокартон',
+  glass: 'Стекло',
+  brick: 'Кирпич',
+  concrete: 'Бетон',
+  metal: 'Металлический стеллаж',
+  custom: 'Другой',
+};
+
+// Outline colours on the map, from light partitions to walls that block the signal
+export const BARRIER_MATERIAL_COLORS: Record<BarrierMaterial, string> = {
+  drywall: '#9ca3af',
+  glass: '#0ea5e9',
+  brick: '#b45309',
+  concrete: '#374151',
+  metal: '#7c3aed',
+  custom: '#dc2626',
+};
+
+export const isBarrierMaterial = (value: unknown): value is BarrierMaterial =>
+  typeof value === 'string' && value in BARRIER_MATERIAL_ATTENUATION;
+
+// Material properties of a barrier: the typical attenuation of the material unless given explicitly.
+export const barrierMaterial = (
+  material: BarrierMaterial = DEFAULT_BARRIER_MATERIAL,
+  attenuation = BARRIER_MATERIAL_ATTENUATION[material],
+): Pick<Barrier, 'material' | 'attenuation'> => ({ material, attenuation });
@@ -0,0 +1,64 @@
+import { Extent } from 'ol/extent';
+import { BasemapAdjustments } from '@/types/plan';
+import { canvasToDataUrl, ImageSize, loadImage } from '@/utils/image';
+
+// Canvas filter for the plan image; opacity is applied separately as the layer opacity.
+export const getBasemapFilter = ({ grayscale, brightness, contrast, invert }: BasemapAdjustments): string => {
+  const filters = [
+    grayscale !== 0 && `grayscale(${grayscale}%)`,
+    brightness !== 100 && `brightness(${brightness}%)`,
+    contrast !== 100 && `contrast(${contrast}%)`,
+    invert && 'invert(100%)',
+  ].filter(Boolean);
+  return filters.length > 0 ? filters.join(' ') : 'none';
+};
+
+export interface PixelRect {
+  x: number;
+  y: number; // from the top of the image
+  width: number;
+  height: number;
+}
+
+// Image pixels covered by a part of the plan extent (map y points up, image rows go down).
+export const extentToPixelRect = (
+  [minX, minY, maxX, maxY]: Extent,
+  plan: { width: number; height: number }, // meters
+  image: ImageSize,
+): PixelRect => {
+  const scaleX = image.width / plan.width;
+  const scaleY = image.height / plan.height;
+  const left = Math.max(0, Math.round(minX * scaleX));
+  const top = Math.max(0, Math.round((plan.height - maxY) * scaleY));
+  const right = Math.min(image.width, Math.round(maxX * scaleX));
+  const bottom = Math.min(image.height, Math.round((plan.height - minY) * scaleY));
+  return { x: left, y: top, width: Math.max(0, right - left), height: Math.max(0, bottom - top) };
+};
+
+// The inverse of extentToPixelRect, for crop extents that follow whole image pixels.
+export const pixelRectToExtent = (
+  rect: PixelRect,
+  plan: { width: number; height: number }, // meters
+  image: ImageSize,
+): Extent => {
+  const metersPerPixelX = plan.width / image.width;
+  const metersPerPixelY = plan.height / image.height;
+  return [
+    rect.x * metersPerPixelX,
+    (image.height - rect.y - rect.height) * metersPerPixelY,
+    (rect.x + rect.width) * metersPerPixelX,
+    (image.height - rect.y) * metersPerPixelY,
+  ];
+};
+
+// Cuts a part of an image out into a new data URL.
+export const cropImage = async (src: string, rect: PixelRect): Promise<string> => {
+  const image = await loadImage(src);
+  const canvas = document.createElement('canvas');
+  canvas.width = rect.width;
+  canvas.height = rect.height;
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Не удалось обрезать изображение.');
+  context.drawImage(image, rect.x, rect.y, rect.width, rect.height, 0, 0, rect.width, rect.height);
+  return canvasToDataUrl(canvas, src);
+};
@@ -0,0 +1,71 @@
+import { DEFAULT_BASEMAP_ADJUSTMENTS, Floor } from '@/types/plan';
+
+// Where a floor sits in its building; carried into exports of the floor.
+export interface FloorLevel {
+  name: string;
+  elevation: number; // meters
+  ordinal: number; // 0 for the lowest floor at or above ground, negative below ground (as in IMDF)
+}
+
+export interface FloorCounts {
+  beacons: number;
+  antennas: number;
+  barriers: number;
+}
+
+const DEFAULT_STOREY_HEIGHT = 3; // meters, for floors added on top
+
+export const DEFAULT_FLOOR_LEVEL: FloorLevel = { name: 'Этаж 1', elevation: 0, ordinal: 0 };
+
+const generateFloorId = () => `floor-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const createFloor = (name: string, elevation = 0): Floor => ({
+  id: generateFloorId(),
+  name,
+  elevation,
+  mapImageSrc: null,
+  vectorBasemap: null,
+  basemapAdjustments: DEFAULT_BASEMAP_ADJUSTMENTS,
+  mapWidth: 100,
+  mapHeight: 100,
+  beacons: [],
+  antennas: [],
+  barriers: [],
+  georeference: null,
+});
+
+// A new top floor one storey above the current top floor.
+export const createNextFloor = (floors: Floor[]): Floor => {
+  const elevation = floors.length > 0
+    ? Math.max(...floors.map((floor) => floor.elevation)) + DEFAULT_STOREY_HEIGHT
+    : 0;
+  return createFloor(`Этаж ${floors.length + 1}`, elevation);
+};
+
+// Stable for equal elevations, so floors at one level keep the order they were added in.
+export const sortFloors = <T extends Pick<Floor, 'elevation'>>(floors: T[]): T[] =>
+  [...floors].sort((a, b) => a.elevation - b.elevation);
+
+export const getFloorLevel = (floors: Floor[], floorId: string): FloorLevel => {
+  const sorted = sortFloors(floors);
+  const index = sorted.findIndex((floor) => floor.id === floorId);
+  if (index === -1) return DEFAULT_FLOOR_LEVEL;
+  const undergroundCount = sorted.filter((floor) => floor.elevation < 0).length;
+  return { name: sorted[index].name, elevation: sorted[index].elevation, ordinal: index - undergroundCount };
+};
+
+export const getFloorCounts = (floor: Floor): FloorCounts => ({
+  beacons: floor.beacons.length,
+  antennas: floor.antennas.length,
+  barriers: floor.barriers.length,
+});
+
+export const getBuildingCounts = (floors: Floor[]): FloorCounts =>
+  floors.map(getFloorCounts).reduce(
+    (total, counts) => ({
+      beacons: total.beacons + counts.beacons,
+      antennas: total.antennas + counts.antennas,
+      barriers: total.barriers + counts.barriers,
+    }),
+    { beacons: 0, antennas: 0, barriers: 0 },
+  );
@@ -0,0 +1,106 @@
+import { Coordinate } from 'ol/coordinate';
+import { Extent } from 'ol/extent';
+import { Antenna, Barrier, Beacon, Floor } from '@/types/plan';
+import { ImageSize } from '@/utils/image';
+import { transformPaths } from '@/utils/vectorBasemap';
+
+export interface CalibratedExtent {
+  width: number; // meters
+  height: number; // meters
+}
+
+const EXTENT_DIGITS = 3;
+
+// Map extent in meters from two points picked on the current map and the real distance between them.
+// Raster plans are measured in image pixels, so a stretched extent becomes undistorted again;
+// vector plans are already undistorted and are scaled uniformly.
+export const calibrateExtent = (
+  [start, end]: [Coordinate, Coordinate],
+  realDistance: number,
+  current: CalibratedExtent,
+  imageSize: ImageSize | null,
+): CalibratedExtent | null => {
+  const units = imageSize ?? current;
+  const toUnits = ([x, y]: Coordinate) => [x * (units.width / current.width), y * (units.height / current.height)];
+  const [x1, y1] = toUnits(start);
+  const [x2, y2] = toUnits(end);
+  const unitDistance = Math.hypot(x2 - x1, y2 - y1);
+  if (unitDistance === 0 || realDistance <= 0) return null;
+  const metersPerUnit = realDistance / unitDistance;
+  return {
+    width: Number((units.width * metersPerUnit).toFixed(EXTENT_DIGITS)),
+    height: Number((units.height * metersPerUnit).toFixed(EXTENT_DIGITS)),
+  };
+};
+
+// Moves everything placed on the plan along with a change of its extent, anchored at [0, 0].
+export const rescaleFloor = (floor: Floor, extent: CalibratedExtent): Floor => {
+  const scaleX = extent.width / floor.mapWidth;
+  const scaleY = extent.height / floor.mapHeight;
+  const scale = ([x, y]: Coordinate): Coordinate => [x * scaleX, y * scaleY];
+
+  return {
+    ...floor,
+    mapWidth: extent.width,
+    mapHeight: extent.height,
+    vectorBasemap: floor.vectorBasemap && {
+      ...floor.vectorBasemap,
+      paths: transformPaths(floor.vectorBasemap.paths, scale),
+    },
+    beacons: floor.beacons.map((beacon): Beacon => ({ ...beacon, position: scale(beacon.position) })),
+    antennas: floor.antennas.map((antenna): Antenna => ({ ...antenna, position: scale(antenna.position) })),
+    barriers: floor.barriers.map((barrier): Barrier => ({
+      ...barrier,
+      coordinates: barrier.coordinates.map((ring) => ring.map(scale)),
+    })),
+    georeference: floor.georeference && {
+      ...floor.georeference,
+      controlPoints: floor.georeference.controlPoints.map((point) => ({ ...point, position: scale(point.position) })),
+    },
+  };
+};
+
+// Moves the plan to `extent` of its current frame, when trimming it or fitting a new image revision.
+// Everything placed keeps its spot on the plan, so its coordinates shift by the extent's bottom-left
+// corner; whatever falls outside the new extent is kept.
+export const cropFloor = (floor: Floor, [minX, minY, maxX, maxY]: Extent, mapImageSrc: string | null): Floor => {
+  const shift = ([x, y]: Coordinate): Coordinate => [x - minX, y - minY];
+
+  return {
+    ...floor,
+    mapImageSrc,
+    mapWidth: Number((maxX - minX).toFixed(EXTENT_DIGITS)),
+    mapHeight: Number((maxY - minY).toFixed(EXTENT_DIGITS)),
+    vectorBasemap: floor.vectorBasemap && {
+      ...floor.vectorBasemap,
+      paths: transformPaths(floor.vectorBasemap.paths, shift),
+    },
+    beacons: floor.beacons.map((beacon): Beacon => ({ ...beacon, position: shift(beacon.position) })),
+    antennas: floor.antennas.map((antenna): Antenna => ({ ...antenna, position: shift(antenna.position) })),
+    barriers: floor.barriers.map((barrier): Barrier => ({
+      ...barrier,
+      coordinates: barrier.coordinates.map((ring) => ring.map(shift)),
+    })),
+    georeference: floor.georeference && {
+      ...floor.georeference,
+      controlPoints: floor.georeference.controlPoints.map((point) => ({ ...point, position: shift(point.position) })),
+    },
+  };
+};
+
+export interface ScaleDistortion {
+  metersPerPixelX: number;
+  metersPerPixelY: number;
+  difference: number; // percent, relative to the smaller scale
+}
+
+// How differently an extent stretches the image along X and Y. Zero for an undistorted plan.
+export const getScaleDistortion = (extent: CalibratedExtent, imageSize: ImageSize): ScaleDistortion => {
+  const metersPerPixelX = extent.width / imageSize.width;
+  const metersPerPixelY = extent.height / imageSize.height;
+  return {
+    metersPerPixelX,
+    metersPerPixelY,
+    difference: (Math.abs(metersPerPixelX - metersPerPixelY) / Math.min(metersPerPixelX, metersPerPixelY)) * 100,
+  };
+};
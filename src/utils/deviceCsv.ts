@@ -0,0 +1,269 @@
+import { Coordinate } from 'ol/coordinate';
+import { Antenna, Beacon } from '@/types/plan';
+import { toCsv } from '@/utils/csv';
+
+export type DeviceKind = 'beacon' | 'antenna';
+
+export type DeviceField = 'id' | 'x' | 'y' | 'rssi' | 'height' | 'angle';
+
+interface DeviceFieldInfo {
+  field: DeviceField;
+  label: string;
+  required: boolean;
+  aliases: string[]; // Lower-case header names recognised when guessing the mapping
+}
+
+const ID_FIELD: DeviceFieldInfo = { field: 'id', label: 'ID', required: false, aliases: ['id', 'name', 'mac', 'идентификатор', 'имя'] };
+const X_FIELD: DeviceFieldInfo = { field: 'x', label: 'X (м)', required: true, aliases: ['x', 'x_m', 'pos_x', 'х'] };
+const Y_FIELD: DeviceFieldInfo = { field: 'y', label: 'Y (м)', required: true, aliases: ['y', 'y_m', 'pos_y', 'у'] };
+
+export const DEVICE_CSV_FIELDS: Record<DeviceKind, DeviceFieldInfo[]> = {
+  beacon: [
+    ID_FIELD,
+    X_FIELD,
+    Y_FIELD,
+    { field: 'rssi', label: 'RSSI (dBm)', required: false, aliases: ['rssi', 'tx_power', 'txpower'] },
+  ],
+  antenna: [
+    ID_FIELD,
+    X_FIELD,
+    Y_FIELD,
+    { field: 'height', label: 'Высота (м)', required: false, aliases: ['height', 'z', 'высота'] },
+    { field: 'angle', label: 'Угол (°)', required: false, aliases: ['angle', 'azimuth', 'угол'] },
+  ],
+};
+
+// Maps each device field to a CSV column index, or null when the field is not imported.
+export type ColumnMapping = Partial<Record<DeviceField, number | null>>;
+
+export interface CsvRowError {
+  row: number; // 1-based line number in the file, header included
+  message: string;
+}
+
+export interface DeviceCsvImportResult<T> {
+  devices: T[];
+  errors: CsvRowError[];
+}
+
+interface ImportOptions {
+  mapWidthMeters: number;
+  mapHeightMeters: number;
+  toMapCoordinate?: (coordinate: Coordinate) => Coordinate; // File coordinates are identical to map ones when omitted
+}
+
+interface AntennaImportOptions extends ImportOptions {
+  defaultHeight: number;
+  defaultAngle: number;
+  getRange: (height: number) => number; // Coverage radius follows from the propagation model
+}
+
+// Columns derived from the plan rather than the device: the floor name and, for georeferenced plans,
+// the geographic position. A re-imported file keeps them in `extra`, so they are skipped there
+// to avoid duplicate columns on the next export.
+const FLOOR_COLUMN = 'floor';
+const GEO_COLUMNS = ['lat', 'lon'];
+// Exported for reference only and dropped on import; the radius of an antenna follows from its height
+const RANGE_COLUMN = 'range';
+
+// Converts a device position to [longitude, latitude]
+export type LonLatConverter = (position: Coordinate) => Coordinate;
+
+export interface DeviceCsvExportOptions {
+  floor?: string;
+  toLonLat?: LonLatConverter;
+}
+
+const derivedColumns = ({ floor, toLonLat }: DeviceCsvExportOptions) => [
+  ...(floor !== undefined ? [FLOOR_COLUMN] : []),
+  ...(toLonLat ? GEO_COLUMNS : []),
+];
+
+const collectExtraKeys = (devices: { extra?: Record<string, string> }[], options: DeviceCsvExportOptions) => {
+  const keys = new Set<string>();
+  devices.forEach((device) => Object.keys(device.extra ?? {}).forEach((key) => keys.add(key)));
+  const derived = derivedColumns(options);
+  return [...keys].filter((key) => !derived.includes(key));
+};
+
+const derivedCells = (position: Coordinate, { floor, toLonLat }: DeviceCsvExportOptions) => {
+  const cells: (string | number)[] = floor !== undefined ? [floor] : [];
+  if (toLonLat) {
+    const [lon, lat] = toLonLat(position);
+    cells.push(lat, lon);
+  }
+  return cells;
+};
+
+export const beaconsToCsv = (beacons: Beacon[], options: DeviceCsvExportOptions = {}): string => {
+  const extraKeys = collectExtraKeys(beacons, options);
+  return toCsv([
+    ['id', 'x', 'y', 'rssi', ...derivedColumns(options), ...extraKeys],
+    ...beacons.map((beacon) => [
+      beacon.id,
+      beacon.position[0],
+      beacon.position[1],
+      beacon.rssi ?? '',
+      ...derivedCells(beacon.position, options),
+      ...extraKeys.map((key) => beacon.extra?.[key] ?? ''),
+    ]),
+  ]);
+};
+
+export const antennasToCsv = (antennas: Antenna[], options: DeviceCsvExportOptions = {}): string => {
+  const extraKeys = collectExtraKeys(antennas, options);
+  return toCsv([
+    ['id', 'x', 'y', 'height', 'angle', RANGE_COLUMN, ...derivedColumns(options), ...extraKeys],
+    ...antennas.map((antenna) => [
+      antenna.id,
+      antenna.position[0],
+      antenna.position[1],
+      antenna.height,
+      antenna.angle,
+      antenna.range,
+      ...derivedCells(antenna.position, options),
+      ...extraKeys.map((key) => antenna.extra?.[key] ?? ''),
+    ]),
+  ]);
+};
+
+export const guessColumnMapping = (headers: string[], kind: DeviceKind): ColumnMapping => {
+  const normalized = headers.map((header) => header.trim().toLowerCase());
+  const mapping: ColumnMapping = {};
+  DEVICE_CSV_FIELDS[kind].forEach(({ field, aliases }) => {
+    const index = normalized.findIndex((header) => aliases.includes(header));
+    mapping[field] = index >= 0 ? index : null;
+  });
+  return mapping;
+};
+
+// Accepts both "12.5" and "12,5" since spreadsheets write the decimal separator of their locale.
+const parseNumber = (value: string | undefined): number | null => {
+  if (value === undefined || value.trim() === '') return null;
+  const number = Number(value.trim().replace(',', '.'));
+  return Number.isFinite(number) ? number : null;
+};
+
+interface ParsedRow {
+  line: number;
+  id: string;
+  position: [number, number];
+  values: Partial<Record<DeviceField, number>>;
+  extra?: Record<string, string>;
+}
+
+const parseRows = (
+  rows: string[][],
+  mapping: ColumnMapping,
+  kind: DeviceKind,
+  { mapWidthMeters, mapHeightMeters, toMapCoordinate }: ImportOptions,
+): { parsed: ParsedRow[]; errors: CsvRowError[] } => {
+  const [headers, ...dataRows] = rows;
+  const mappedColumns = new Set(Object.values(mapping).filter((index): index is number => index != null));
+  const extraColumns = headers
+    .map((header, index) => ({ header: header.trim() || `column_${index + 1}`, index }))
+    .filter(({ index }) => !mappedColumns.has(index));
+
+  const parsed: ParsedRow[] = [];
+  const errors: CsvRowError[] = [];
+  const seenIds = new Set<string>();
+
+  dataRows.forEach((row, rowIndex) => {
+    const line = rowIndex + 2;
+    const cell = (field: DeviceField) => {
+      const index = mapping[field];
+      return index == null ? undefined : row[index];
+    };
+
+    const x = parseNumber(cell('x'));
+    const y = parseNumber(cell('y'));
+    if (x === null || y === null) {
+      errors.push({ row: line, message: 'Координаты X/Y отсутствуют или не являются числами.' });
+      return;
+    }
+    const [mapX, mapY] = toMapCoordinate ? toMapCoordinate([x, y]) : [x, y];
+    if (mapX < 0 || mapX > mapWidthMeters || mapY < 0 || mapY > mapHeightMeters) {
+      errors.push({
+        row: line,
+        message: `Координаты (${x}; ${y}) вне карты ${mapWidthMeters} × ${mapHeightMeters} м.`,
+      });
+      return;
+    }
+
+    const values: Partial<Record<DeviceField, number>> = {};
+    for (const { field } of DEVICE_CSV_FIELDS[kind]) {
+      if (field === 'id' || field === 'x' || field === 'y') continue;
+      const raw = cell(field);
+      if (raw === undefined || raw.trim() === '') continue;
+      const value = parseNumber(raw);
+      if (value === null) {
+        errors.push({ row: line, message: `Значение «${raw}» в поле ${field} не является числом.` });
+        return;
+      }
+      values[field] = value;
+    }
+
+    const id = cell('id')?.trim() || `${kind}-import-${Date.now()}-${rowIndex}`;
+    if (seenIds.has(id)) {
+      errors.push({ row: line, message: `ID «${id}» повторяется в файле.` });
+      return;
+    }
+    seenIds.add(id);
+
+    const extra: Record<string, string> = {};
+    extraColumns.forEach(({ header, index }) => {
+      if (row[index] !== undefined && row[index] !== '') extra[header] = row[index];
+    });
+
+    parsed.push({
+      line,
+      id,
+      position: [mapX, mapY],
+      values,
+      extra: Object.keys(extra).length > 0 ? extra : undefined,
+    });
+  });
+
+  return { parsed, errors };
+};
+
+export const importBeaconsFromCsv = (
+  rows: string[][],
+  mapping: ColumnMapping,
+  options: ImportOptions,
+): DeviceCsvImportResult<Beacon> => {
+  const { parsed, errors } = parseRows(rows, mapping, 'beacon', options);
+  return {
+    devices: parsed.map(({ id, position, values, extra }) => ({ id, position, rssi: values.rssi, extra })),
+    errors,
+  };
+};
+
+export const importAntennasFromCsv = (
+  rows: string[][],
+  mapping: ColumnMapping,
+  options: AntennaImportOptions,
+): DeviceCsvImportResult<Antenna> => {
+  const { parsed, errors } = parseRows(rows, mapping, 'antenna', options);
+  return {
+    devices: parsed.map(({ id, position, values, extra }) => {
+      const height = values.height ?? options.defaultHeight;
+      const { [RANGE_COLUMN]: _range, ...rest } = extra ?? {};
+      return {
+        id,
+        position,
+        height,
+        angle: values.angle ?? options.defaultAngle,
+        range: options.getRange(height),
+        extra: Object.keys(rest).length > 0 ? rest : undefined,
+      };
+    }),
+    errors,
+  };
+};
+
+// Imported devices replace existing ones with the same ID, the rest are appended.
+export const mergeImportedDevices = <T extends { id: string }>(existing: T[], imported: T[]): T[] => {
+  const importedIds = new Set(imported.map((device) => device.id));
+  return [...existing.filter((device) => !importedIds.has(device.id)), ...imported];
+};
@@ -0,0 +1,211 @@
+import DxfParser, {
+  IArcEntity,
+  ICircleEntity,
+  IDxf,
+  IEntity,
+  IInsertEntity,
+  ILineEntity,
+  ILwpolylineEntity,
+  IPolylineEntity,
+} from 'dxf-parser';
+import { Coordinate } from 'ol/coordinate';
+import { VectorBasemap, VectorPath } from '@/types/plan';
+import { getPathsExtent, transformPaths } from '@/utils/vectorBasemap';
+
+export class DxfImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DxfImportError';
+  }
+}
+
+// $INSUNITS codes that occur in floor plans
+export const DXF_UNITS: { code: number; label: string; meters: number }[] = [
+  { code: 4, label: 'Миллиметры', meters: 0.001 },
+  { code: 5, label: 'Сантиметры', meters: 0.01 },
+  { code: 6, label: 'Метры', meters: 1 },
+  { code: 1, label: 'Дюймы', meters: 0.0254 },
+  { code: 2, label: 'Футы', meters: 0.3048 },
+];
+
+export interface DxfDrawing {
+  paths: VectorPath[]; // In drawing units, model space
+  layers: string[];
+  unitsCode: number | null; // null when the drawing is unitless
+}
+
+const ARC_SEGMENT_ANGLE = Math.PI / 32;
+const MAX_BLOCK_DEPTH = 8;
+
+type Transform = (point: Coordinate) => Coordinate;
+
+const identity: Transform = (point) => point;
+
+const arcPoints = (center: Coordinate, radius: number, startAngle: number, sweep: number): Coordinate[] => {
+  const segments = Math.max(2, Math.ceil(Math.abs(sweep) / ARC_SEGMENT_ANGLE));
+  const points: Coordinate[] = [];
+  for (let i = 0; i <= segments; i++) {
+    const angle = startAngle + (sweep * i) / segments;
+    points.push([center[0] + radius * Math.cos(angle), center[1] + radius * Math.sin(angle)]);
+  }
+  return points;
+};
+
+// Intermediate points of a polyline segment with a bulge (tan of a quarter of the arc angle, positive = CCW)
+const bulgePoints = (start: Coordinate, end: Coordinate, bulge: number): Coordinate[] => {
+  const sweep = 4 * Math.atan(bulge);
+  const dx = end[0] - start[0];
+  const dy = end[1] - start[1];
+  const chord = Math.hypot(dx, dy);
+  if (chord === 0) return [];
+  const radius = chord / (2 * Math.sin(sweep / 2));
+  const centerOffset = radius * Math.cos(sweep / 2);
+  const center: Coordinate = [
+    (start[0] + end[0]) / 2 - (centerOffset * dy) / chord,
+    (start[1] + end[1]) / 2 + (centerOffset * dx) / chord,
+  ];
+  const startAngle = Math.atan2(start[1] - center[1], start[0] - center[0]);
+  return arcPoints(center, Math.abs(radius), startAngle, sweep).slice(1, -1);
+};
+
+const polylinePoints = (vertices: { x: number; y: number; bulge?: number }[], closed: boolean): Coordinate[] => {
+  const points: Coordinate[] = [];
+  vertices.forEach((vertex, index) => {
+    const current: Coordinate = [vertex.x, vertex.y];
+    points.push(current);
+    const next = vertices[index + 1] ?? (closed ? vertices[0] : undefined);
+    if (next && vertex.bulge) {
+      points.push(...bulgePoints(current, [next.x, next.y], vertex.bulge));
+    }
+  });
+  return points;
+};
+
+const colorToCss = (color: number | undefined): string | undefined => {
+  // White entities are drawn black, as CAD viewers do on a light background
+  if (color === undefined || color === 0xffffff) return undefined;
+  return `#${color.toString(16).padStart(6, '0')}`;
+};
+
+const collectPaths = (
+  dxf: IDxf,
+  entities: IEntity[],
+  transform: Transform,
+  parentLayer: string | null,
+  depth: number,
+  paths: VectorPath[],
+) => {
+  entities.forEach((entity) => {
+    if (entity.visible === false || entity.inPaperSpace) return;
+    // Entities on layer "0" inside a block take the layer of the INSERT
+    const layer = parentLayer && (!entity.layer || entity.layer === '0') ? parentLayer : entity.layer ?? '0';
+    const color = colorToCss(entity.color);
+    const addPath = (coordinates: Coordinate[], closed: boolean) => {
+      if (coordinates.length >= 2) {
+        paths.push({ layer, coordinates: coordinates.map(transform), closed, color });
+      }
+    };
+
+    switch (entity.type) {
+      case 'LINE': {
+        const { vertices } = entity as ILineEntity;
+        addPath(vertices.map((v) => [v.x, v.y]), false);
+        break;
+      }
+      case 'LWPOLYLINE': {
+        const polyline = entity as ILwpolylineEntity;
+        addPath(polylinePoints(polyline.vertices, polyline.shape), polyline.shape);
+        break;
+      }
+      case 'POLYLINE': {
+        const polyline = entity as IPolylineEntity;
+        if (polyline.isPolyfaceMesh || polyline.is3dPolygonMesh) break;
+        addPath(polylinePoints(polyline.vertices, polyline.shape), polyline.shape);
+        break;
+      }
+      case 'ARC': {
+        const arc = entity as IArcEntity;
+        let sweep = arc.endAngle - arc.startAngle;
+        if (sweep <= 0) sweep += 2 * Math.PI;
+        addPath(arcPoints([arc.center.x, arc.center.y], arc.radius, arc.startAngle, sweep), false);
+        break;
+      }
+      case 'CIRCLE': {
+        const circle = entity as ICircleEntity;
+        addPath(arcPoints([circle.center.x, circle.center.y], circle.radius, 0, 2 * Math.PI).slice(0, -1), true);
+        break;
+      }
+      case 'INSERT': {
+        const insert = entity as IInsertEntity;
+        const block = dxf.blocks?.[insert.name];
+        if (!block || depth >= MAX_BLOCK_DEPTH) break;
+        const base = block.position ?? { x: 0, y: 0 };
+        const scaleX = insert.xScale ?? 1;
+        const scaleY = insert.yScale ?? 1;
+        const rotation = ((insert.rotation ?? 0) * Math.PI) / 180;
+        const cos = Math.cos(rotation);
+        const sin = Math.sin(rotation);
+        const columns = Math.max(1, insert.columnCount ?? 1);
+        const rows = Math.max(1, insert.rowCount ?? 1);
+        for (let row = 0; row < rows; row++) {
+          for (let column = 0; column < columns; column++) {
+            const offsetX = column * (insert.columnSpacing ?? 0);
+            const offsetY = row * (insert.rowSpacing ?? 0);
+            const blockTransform: Transform = ([x, y]) => {
+              const sx = (x - base.x) * scaleX + offsetX;
+              const sy = (y - base.y) * scaleY + offsetY;
+              return transform([
+                insert.position.x + sx * cos - sy * sin,
+                insert.position.y + sx * sin + sy * cos,
+              ]);
+            };
+            collectPaths(dxf, block.entities ?? [], blockTransform, layer, depth + 1, paths);
+          }
+        }
+        break;
+      }
+      default:
+        break;
+    }
+  });
+};
+
+export const parseDxf = (text: string): DxfDrawing => {
+  let dxf: IDxf | null;
+  try {
+    dxf = new DxfParser().parseSync(text);
+  } catch (error) {
+    console.error('Ошибка разбора DXF:', error);
+    throw new DxfImportError('Не удалось разобрать DXF-файл. Сохраните чертеж в формате ASCII DXF.');
+  }
+  if (!dxf) {
+    throw new DxfImportError('DXF-файл пуст.');
+  }
+
+  const paths: VectorPath[] = [];
+  collectPaths(dxf, dxf.entities ?? [], identity, null, 0, paths);
+  if (paths.length === 0) {
+    throw new DxfImportError('В чертеже нет поддерживаемых объектов (LINE, LWPOLYLINE, POLYLINE, ARC, CIRCLE, INSERT).');
+  }
+
+  const unitsCode = Number(dxf.header?.$INSUNITS);
+  return {
+    paths,
+    layers: [...new Set(paths.map((path) => path.layer))].sort(),
+    unitsCode: DXF_UNITS.some((unit) => unit.code === unitsCode) ? unitsCode : null,
+  };
+};
+
+// Scales the drawing to meters and moves its lower-left corner to the map origin.
+export const dxfToBasemap = (
+  drawing: DxfDrawing,
+  metersPerUnit: number,
+): { basemap: VectorBasemap; width: number; height: number } => {
+  const [minX, minY, maxX, maxY] = getPathsExtent(drawing.paths)!;
+  const paths = transformPaths(drawing.paths, ([x, y]) => [(x - minX) * metersPerUnit, (y - minY) * metersPerUnit]);
+  return {
+    basemap: { source: 'dxf', layers: drawing.layers, paths },
+    width: Math.max((maxX - minX) * metersPerUnit, 1),
+    height: Math.max((maxY - minY) * metersPerUnit, 1),
+  };
+};
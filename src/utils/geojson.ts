@@ -0,0 +1,182 @@
+import { Antenna, Barrier, Beacon, PlanOrientation } from '@/types/plan';
+import { FloorLevel } from '@/utils/building';
+import { barrierMaterial, isBarrierMaterial } from '@/utils/barrierMaterials';
+
+// Planning layers as one GeoJSON FeatureCollection. Coordinates are the plan's local metres,
+// not WGS84, so GIS tools should treat the file as an unknown/engineering CRS. They are map
+// coordinates (origin at the bottom-left corner, Y up) whatever drawing coordinate system the CSV
+// export uses. The `plan` member carries the extent, the axes, the floor and the orientation (view
+// rotation and north bearing, degrees clockwise).
+
+export type PlanFeatureKind = 'beacon' | 'antenna' | 'barrier';
+
+export interface PlanLayers {
+  beacons: Beacon[];
+  antennas: Antenna[];
+  barriers: Barrier[];
+}
+
+interface GeoJsonFeature {
+  type: 'Feature';
+  id?: string | number;
+  geometry: { type: string; coordinates: unknown } | null;
+  properties: Record<string, unknown> | null;
+}
+
+export class GeoJsonImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'GeoJsonImportError';
+  }
+}
+
+// Typed attributes per kind; any other property round-trips through `extra`.
+// floor and lat/lon are derived from the plan on export and never imported.
+const RESERVED_PROPERTIES = ['kind', 'id', 'rssi', 'height', 'angle', 'range', 'floor', 'lat', 'lon'];
+
+const pointFeature = (
+  kind: PlanFeatureKind,
+  id: string,
+  position: number[],
+  properties: Record<string, unknown>,
+  extra?: Record<string, string>,
+): GeoJsonFeature => ({
+  type: 'Feature',
+  id,
+  geometry: { type: 'Point', coordinates: [position[0], position[1]] },
+  properties: { ...extra, kind, id, ...properties },
+});
+
+export const planToGeoJson = (
+  { beacons, antennas, barriers }: PlanLayers,
+  plan: { mapWidth: number; mapHeight: number; orientation: PlanOrientation; floor: FloorLevel },
+  toLonLat?: (position: number[]) => number[],
+): string => {
+  const geoProperties = (position: number[]) => {
+    if (!toLonLat) return {};
+    const [lon, lat] = toLonLat(position);
+    return { lat, lon };
+  };
+  const features: GeoJsonFeature[] = [
+    ...beacons.map((beacon) =>
+      pointFeature('beacon', beacon.id, beacon.position, {
+        rssi: beacon.rssi ?? null,
+        floor: plan.floor.name,
+        ...geoProperties(beacon.position),
+      }, beacon.extra)
+    ),
+    ...antennas.map((antenna) =>
+      pointFeature('antenna', antenna.id, antenna.position, {
+        height: antenna.height,
+        angle: antenna.angle,
+        range: antenna.range,
+        floor: plan.floor.name,
+        ...geoProperties(antenna.position),
+      }, antenna.extra)
+    ),
+    ...barriers.map((barrier): GeoJsonFeature => ({
+      type: 'Feature',
+      id: barrier.id,
+      geometry: { type: 'Polygon', coordinates: barrier.coordinates },
+      properties: {
+        kind: 'barrier',
+        id: barrier.id,
+        material: barrier.material,
+        attenuation: barrier.attenuation,
+        floor: plan.floor.name,
+      },
+    })),
+  ];
+
+  return JSON.stringify({
+    type: 'FeatureCollection',
+    plan: {
+      units: 'm',
+      extent: [0, 0, plan.mapWidth, plan.mapHeight],
+      origin: 'bottom-left',
+      yAxis: 'up',
+      floor: plan.floor,
+      rotation: plan.orientation.rotation,
+      northBearing: plan.orientation.northBearing,
+    },
+    features,
+  }, null, 2);
+};
+
+const readNumber = (properties: Record<string, unknown>, key: string): number | undefined => {
+  const value = properties[key];
+  if (value === undefined || value === null || value === '') return undefined;
+  const number = Number(value);
+  return Number.isFinite(number) ? number : undefined;
+};
+
+const readExtra = (properties: Record<string, unknown>): Record<string, string> | undefined => {
+  const entries = Object.entries(properties)
+    .filter(([key, value]) => !RESERVED_PROPERTIES.includes(key) && value !== null && value !== undefined)
+    .map(([key, value]) => [key, typeof value === 'string' ? value : JSON.stringify(value)]);
+  return entries.length > 0 ? Object.fromEntries(entries) : undefined;
+};
+
+const isPosition = (value: unknown): value is number[] =>
+  Array.isArray(value) && value.length >= 2 && value.every((n) => typeof n === 'number');
+
+export const geoJsonToPlan = (
+  text: string,
+  defaults: { antennaHeight: number; antennaAngle: number; getAntennaRange: (height: number) => number },
+): PlanLayers => {
+  let collection: { type?: string; features?: unknown };
+  try {
+    collection = JSON.parse(text);
+  } catch {
+    throw new GeoJsonImportError('Файл не является корректным JSON.');
+  }
+  if (collection?.type !== 'FeatureCollection' || !Array.isArray(collection.features)) {
+    throw new GeoJsonImportError('Ожидается GeoJSON FeatureCollection.');
+  }
+
+  const layers: PlanLayers = { beacons: [], antennas: [], barriers: [] };
+  (collection.features as GeoJsonFeature[]).forEach((feature, index) => {
+    const properties = feature?.properties ?? {};
+    const geometry = feature?.geometry;
+    const kind = properties.kind as PlanFeatureKind | undefined;
+    const id = String(properties.id ?? feature?.id ?? `${kind}-geojson-${index}`);
+    const label = `Объект №${index + 1} (${kind ?? 'без kind'})`;
+
+    if (kind === 'beacon' || kind === 'antenna') {
+      if (geometry?.type !== 'Point' || !isPosition(geometry.coordinates)) {
+        throw new GeoJsonImportError(`${label}: ожидается геометрия Point.`);
+      }
+      const position = [geometry.coordinates[0], geometry.coordinates[1]];
+      if (kind === 'beacon') {
+        layers.beacons.push({ id, position, rssi: readNumber(properties, 'rssi'), extra: readExtra(properties) });
+      } else {
+        // A stored `range` is ignored: the radius follows from the height in the propagation model
+        const height = readNumber(properties, 'height') ?? defaults.antennaHeight;
+        layers.antennas.push({
+          id,
+          position,
+          height,
+          angle: readNumber(properties, 'angle') ?? defaults.antennaAngle,
+          range: defaults.getAntennaRange(height),
+          extra: readExtra(properties),
+        });
+      }
+    } else if (kind === 'barrier') {
+      const rings = geometry?.coordinates;
+      if (geometry?.type !== 'Polygon' || !Array.isArray(rings) || !rings.every((ring) => Array.isArray(ring) && ring.every(isPosition))) {
+        throw new GeoJsonImportError(`${label}: ожидается геометрия Polygon.`);
+      }
+      const material = isBarrierMaterial(properties.material) ? properties.material : undefined;
+      const attenuation = readNumber(properties, 'attenuation');
+      layers.barriers.push({
+        id,
+        coordinates: rings as number[][][],
+        ...barrierMaterial(material, attenuation !== undefined && attenuation >= 0 ? attenuation : undefined),
+      });
+    } else {
+      throw new GeoJsonImportError(`${label}: свойство kind должно быть beacon, antenna или barrier.`);
+    }
+  });
+
+  return layers;
+};
@@ -0,0 +1,128 @@
+import { Coordinate } from 'ol/coordinate';
+import { ControlPointGeoreference, Georeference } from '@/types/plan';
+
+// WGS84 semi-major axis. Plans cover at most a few hundred meters, where a local tangent plane
+// is accurate to well below a centimeter.
+const EARTH_RADIUS_METERS = 6378137;
+const COORDINATE_DIGITS = 9;
+
+export const MIN_CONTROL_POINTS = 3;
+
+// Affine transform from map meters to east/north meters on the tangent plane at the reference point:
+// east = a·x + b·y + c, north = d·x + e·y + f
+export interface GeoTransform {
+  refLon: number;
+  refLat: number;
+  matrix: [number, number, number, number, number, number];
+}
+
+export interface GeoTransformFit {
+  transform: GeoTransform;
+  residuals: number[]; // meters, per control point in input order
+  rmsError: number; // meters
+}
+
+const round = (value: number) => Number(value.toFixed(COORDINATE_DIGITS));
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+const lonLatToEastNorth = (refLon: number, refLat: number, [lon, lat]: Coordinate): Coordinate => [
+  toRadians(lon - refLon) * EARTH_RADIUS_METERS * Math.cos(toRadians(refLat)),
+  toRadians(lat - refLat) * EARTH_RADIUS_METERS,
+];
+
+const applyMatrix = ([a, b, c, d, e, f]: GeoTransform['matrix'], [x, y]: Coordinate): Coordinate => [
+  a * x + b * y + c,
+  d * x + e * y + f,
+];
+
+// Map coordinates (meters) to [longitude, latitude] in degrees.
+export const applyGeoTransform = (transform: GeoTransform, coordinate: Coordinate): Coordinate => {
+  const [east, north] = applyMatrix(transform.matrix, coordinate);
+  return [
+    round(transform.refLon + (east / (EARTH_RADIUS_METERS * Math.cos(toRadians(transform.refLat)))) * (180 / Math.PI)),
+    round(transform.refLat + (north / EARTH_RADIUS_METERS) * (180 / Math.PI)),
+  ];
+};
+
+// A plan placed by its origin and the bearing of its y axis, without control points.
+export const originToGeoTransform = (georeference: Georeference): GeoTransform => {
+  const bearing = toRadians(georeference.bearing);
+  return {
+    refLon: georeference.originLon,
+    refLat: georeference.originLat,
+    matrix: [Math.cos(bearing), Math.sin(bearing), 0, -Math.sin(bearing), Math.cos(bearing), 0],
+  };
+};
+
+// Direction of the map's y axis in degrees clockwise from true north.
+export const getGeoTransformBearing = ({ matrix }: GeoTransform): number => {
+  const [, b, , , e] = matrix;
+  return ((Math.atan2(b, e) * 180) / Math.PI + 360) % 360;
+};
+
+const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+// Least-squares fit of the control points. Returns null while there are too few points
+// or they are degenerate (coincident, or collinear for the affine method).
+export const fitGeoTransform = (georeference: ControlPointGeoreference): GeoTransformFit | null => {
+  const points = georeference.controlPoints;
+  if (points.length < MIN_CONTROL_POINTS) return null;
+
+  const refLon = mean(points.map((point) => point.lonLat[0]));
+  const refLat = mean(points.map((point) => point.lonLat[1]));
+  const targets = points.map((point) => lonLatToEastNorth(refLon, refLat, point.lonLat));
+
+  // Work on centered coordinates, which decouples the translation from the linear part
+  const meanX = mean(points.map((point) => point.position[0]));
+  const meanY = mean(points.map((point) => point.position[1]));
+  const meanEast = mean(targets.map((target) => target[0]));
+  const meanNorth = mean(targets.map((target) => target[1]));
+  const xs = points.map((point) => point.position[0] - meanX);
+  const ys = points.map((point) => point.position[1] - meanY);
+  const easts = targets.map((target) => target[0] - meanEast);
+  const norths = targets.map((target) => target[1] - meanNorth);
+  const sum = (term: (i: number) => number) => points.reduce((total, _, i) => total + term(i), 0);
+
+  let linear: [number, number, number, number];
+  if (georeference.method === 'similarity') {
+    // east = p·x − q·y, north = q·x + p·y
+    const norm = sum((i) => xs[i] * xs[i] + ys[i] * ys[i]);
+    if (norm === 0) return null;
+    const p = sum((i) => xs[i] * easts[i] + ys[i] * norths[i]) / norm;
+    const q = sum((i) => xs[i] * norths[i] - ys[i] * easts[i]) / norm;
+    linear = [p, -q, q, p];
+  } else {
+    const sxx = sum((i) => xs[i] * xs[i]);
+    const syy = sum((i) => ys[i] * ys[i]);
+    const sxy = sum((i) => xs[i] * ys[i]);
+    const determinant = sxx * syy - sxy * sxy;
+    if (Math.abs(determinant) < 1e-9) return null;
+    const solve = (values: number[]): [number, number] => {
+      const sxv = sum((i) => xs[i] * values[i]);
+      const syv = sum((i) => ys[i] * values[i]);
+      return [(sxv * syy - syv * sxy) / determinant, (syv * sxx - sxv * sxy) / determinant];
+    };
+    linear = [...solve(easts), ...solve(norths)];
+  }
+
+  const [a, b, d, e] = linear;
+  const transform: GeoTransform = {
+    refLon,
+    refLat,
+    matrix: [a, b, meanEast - a * meanX - b * meanY, d, e, meanNorth - d * meanX - e * meanY],
+  };
+  const residuals = points.map((point, i) => {
+    const [east, north] = applyMatrix(transform.matrix, point.position);
+    return Math.hypot(east - targets[i][0], north - targets[i][1]);
+  });
+  return {
+    transform,
+    residuals,
+    rmsError: Math.sqrt(mean(residuals.map((residual) => residual * residual))),
+  };
+};
+
+// Direction of true north on screen in degrees clockwise from up, for a view rotated by `rotation`
+// degrees and a plan whose y axis points at `planBearing`.
+export const getScreenNorthAngle = (rotation: number, planBearing: number): number =>
+  (((rotation - planBearing) % 360) + 360) % 360;
@@ -0,0 +1,35 @@
+import ImageStatic from 'ol/source/ImageStatic';
+import { ProjectionLike } from 'ol/proj';
+import { SignalGrid, SignalGridError } from '@/utils/signalGrid';
+
+export type CellColor = [number, number, number] | null; // null leaves the cell transparent
+
+// A grid drawn as an image one pixel per cell over the cells' extent, kept sharp when zoomed in.
+export const createGridImageSource = (
+  grid: Pick<SignalGrid, 'columns' | 'rows' | 'cellSize'>,
+  colorAt: (index: number) => CellColor,
+  projection: ProjectionLike,
+): ImageStatic => {
+  const canvas = document.createElement('canvas');
+  canvas.width = grid.columns;
+  canvas.height = grid.rows;
+  const context = canvas.getContext('2d');
+  if (!context) throw new SignalGridError('Не удалось построить изображение сетки.');
+
+  const image = context.createImageData(grid.columns, grid.rows);
+  for (let index = 0; index < grid.columns * grid.rows; index++) {
+    const color = colorAt(index);
+    if (!color) continue;
+    // Grid rows count from the bottom, image rows from the top
+    const row = grid.rows - 1 - Math.floor(index / grid.columns);
+    image.data.set([...color, 255], (row * grid.columns + (index % grid.columns)) * 4);
+  }
+  context.putImageData(image, 0, 0);
+
+  return new ImageStatic({
+    url: canvas.toDataURL('image/png'),
+    imageExtent: [0, 0, grid.columns * grid.cellSize, grid.rows * grid.cellSize],
+    projection,
+    interpolate: false,
+  });
+};
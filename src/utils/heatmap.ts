@@ -0,0 +1,58 @@
+import { DeviceKind } from '@/utils/deviceCsv';
+import { CellColor } from '@/utils/gridImage';
+import { SignalGrid } from '@/utils/signalGrid';
+
+// Predicted RSSI shown as a raster under the device layers, coloured in bands between thresholds.
+
+export interface HeatmapSettings {
+  isVisible: boolean;
+  kind: DeviceKind;
+  deviceId: string | null; // The signal of this device only, or the strongest of all devices of the kind
+  cellSize: number; // meters
+  thresholds: number[]; // dBm, band boundaries from the weakest up
+  opacity: number; // percent
+}
+
+export const DEFAULT_HEATMAP_SETTINGS: HeatmapSettings = {
+  isVisible: false,
+  kind: 'beacon',
+  deviceId: null,
+  cellSize: 1,
+  thresholds: [-90, -80, -70, -60],
+  opacity: 60,
+};
+
+// One colour per band: below the first threshold, between each pair, above the last
+export const HEATMAP_COLORS: [number, number, number][] = [
+  [220, 38, 38],
+  [249, 115, 22],
+  [234, 179, 8],
+  [132, 204, 22],
+  [22, 163, 74],
+];
+
+export interface HeatmapBand {
+  color: [number, number, number];
+  min: number | null; // dBm, inclusive; null for the band below the first threshold
+  max: number | null; // dBm, exclusive; null for the band above the last threshold
+}
+
+export const getHeatmapBands = (thresholds: number[]): HeatmapBand[] => {
+  const sorted = [...thresholds].sort((a, b) => a - b);
+  return HEATMAP_COLORS.map((color, index) => ({
+    color,
+    min: index > 0 ? sorted[index - 1] : null,
+    max: index < sorted.length ? sorted[index] : null,
+  }));
+};
+
+// Colour of each grid cell by the band of its RSSI. Cells inside barriers, and all cells when no
+// device is given, stay transparent.
+export const getHeatmapCellColor = (grid: SignalGrid, thresholds: number[]) => {
+  const sorted = [...thresholds].sort((a, b) => a - b);
+  return (index: number): CellColor => {
+    const rssi = grid.rssi[index];
+    if (!Number.isFinite(rssi)) return null;
+    return HEATMAP_COLORS[sorted.filter((threshold) => rssi >= threshold).length];
+  };
+};
@@ -0,0 +1,39 @@
+import { readFileAsDataUrl } from '@/utils/download';
+
+export interface ImageSize {
+  width: number; // pixels
+  height: number; // pixels
+}
+
+// Plan images picked in this session are kept as Blobs behind object URLs instead of being read into
+// data URLs. The Blobs are remembered, so that saving a plan does not fetch its image again.
+const imageBlobs = new Map<string, Blob>();
+
+export const createImageUrl = (blob: Blob): string => {
+  const url = URL.createObjectURL(blob);
+  imageBlobs.set(url, blob);
+  return url;
+};
+
+export const isObjectUrl = (src: string) => src.startsWith('blob:');
+
+export const loadImageBlob = async (src: string): Promise<Blob> => imageBlobs.get(src) ?? (await fetch(src)).blob();
+
+// Object URLs only live as long as the page, so files leaving the app embed the image as a data URL
+export const toPortableImageSrc = async (src: string): Promise<string> =>
+  (isObjectUrl(src) ? readFileAsDataUrl(await loadImageBlob(src)) : src);
+
+export const loadImage = (src: string): Promise<HTMLImageElement> => {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('Не удалось прочитать изображение.'));
+    image.src = src;
+  });
+};
+
+// Encodes a canvas derived from `src` in a matching format: JPEG photos stay JPEG, everything else is PNG.
+export const canvasToDataUrl = (canvas: HTMLCanvasElement, src: string): string =>
+  /^data:image\/jpe?g[;,]/i.test(src) || imageBlobs.get(src)?.type === 'image/jpeg'
+    ? canvas.toDataURL('image/jpeg', 0.92)
+    : canvas.toDataURL('image/png');
@@ -0,0 +1,242 @@
+import { strToU8, zipSync } from 'fflate';
+import { Coordinate } from 'ol/coordinate';
+import { Antenna, Barrier, Beacon, Georeference } from '@/types/plan';
+import { applyGeoTransform, GeoTransform, originToGeoTransform } from '@/utils/georeference';
+
+// Indoor Mapping Data Format 1.0 archive: one GeoJSON FeatureCollection per feature type plus a manifest.
+// The plan becomes one venue (at the entered address) with one building and one level; the whole
+// floor is a single unit that barriers (as wall fixtures) and devices (as anchors) refer to.
+
+export interface ImdfExportPlan {
+  mapWidth: number; // meters
+  mapHeight: number; // meters
+  ordinal: number; // of the floor in its building, 0 for the ground floor
+  beacons: Beacon[];
+  antennas: Antenna[];
+  barriers: Barrier[];
+}
+
+// Postal address of the venue; IMDF requires one for every venue
+export interface ImdfAddress {
+  address: string; // street and house number
+  locality: string; // city or town
+  country: string; // ISO 3166-1 alpha-2 code
+  postalCode: string; // may be empty
+}
+
+export interface ImdfExportOptions {
+  venueName: string;
+  levelName: string;
+  address: ImdfAddress;
+  georeference: Georeference;
+}
+
+export const DEFAULT_IMDF_ADDRESS: ImdfAddress = { address: '', locality: '', country: 'RU', postalCode: '' };
+
+export const isValidImdfAddress = (address: ImdfAddress) =>
+  address.address.trim() !== ''
+  && address.locality.trim() !== ''
+  && /^[A-Z]{2}$/.test(address.country.trim());
+
+type Geometry = { type: 'Point'; coordinates: Coordinate } | { type: 'Polygon'; coordinates: Coordinate[][] };
+
+interface ImdfFeature {
+  id: string;
+  type: 'Feature';
+  feature_type: string;
+  geometry: Geometry | null;
+  properties: Record<string, unknown>;
+}
+
+const IMDF_VERSION = '1.0.0';
+const LANGUAGE = 'ru';
+
+const label = (text: string) => ({ [LANGUAGE]: text });
+
+const signedArea = (ring: Coordinate[]) =>
+  ring.reduce((sum, [x1, y1], i) => {
+    const [x2, y2] = ring[(i + 1) % ring.length];
+    return sum + (x1 * y2 - x2 * y1);
+  }, 0) / 2;
+
+// GeoJSON requires closed rings, counterclockwise exterior and clockwise holes
+const normalizeRings = (rings: Coordinate[][]): Coordinate[][] =>
+  rings.map((ring, index) => {
+    const first = ring[0];
+    const last = ring[ring.length - 1];
+    const closed = first[0] === last[0] && first[1] === last[1] ? ring : [...ring, first];
+    const isCounterClockwise = signedArea(closed) > 0;
+    return isCounterClockwise === (index === 0) ? closed : [...closed].reverse();
+  });
+
+const featureCollection = (features: ImdfFeature[]) =>
+  JSON.stringify({ type: 'FeatureCollection', features }, null, 2);
+
+// A plan georeferenced by control points passes its fitted transform, which takes precedence
+// over the origin and bearing in the options.
+export const createImdfArchive = (
+  plan: ImdfExportPlan,
+  options: ImdfExportOptions,
+  transform: GeoTransform = originToGeoTransform(options.georeference),
+): Uint8Array => {
+  const toLonLat = (coordinate: Coordinate) => applyGeoTransform(transform, coordinate);
+  const polygon = (rings: Coordinate[][]): Geometry => ({
+    type: 'Polygon',
+    coordinates: normalizeRings(rings).map((ring) => ring.map(toLonLat)),
+  });
+  const point = (coordinate: Coordinate): Geometry => ({ type: 'Point', coordinates: toLonLat(coordinate) });
+
+  const extent = polygon([[[0, 0], [plan.mapWidth, 0], [plan.mapWidth, plan.mapHeight], [0, plan.mapHeight]]]);
+  const center = point([plan.mapWidth / 2, plan.mapHeight / 2]);
+  const name = label(options.venueName);
+
+  const addressId = crypto.randomUUID();
+  const venueId = crypto.randomUUID();
+  const buildingId = crypto.randomUUID();
+  const levelId = crypto.randomUUID();
+  const unitId = crypto.randomUUID();
+
+  const address: ImdfFeature = {
+    id: addressId,
+    type: 'Feature',
+    feature_type: 'address',
+    geometry: null,
+    properties: {
+      address: options.address.address.trim(),
+      unit: null,
+      locality: options.address.locality.trim(),
+      province: null,
+      country: options.address.country.trim(),
+      postal_code: options.address.postalCode.trim() || null,
+      postal_code_ext: null,
+      postal_code_vanity: null,
+    },
+  };
+  const venue: ImdfFeature = {
+    id: venueId,
+    type: 'Feature',
+    feature_type: 'venue',
+    geometry: extent,
+    properties: {
+      category: 'businesscampus',
+      restriction: null,
+      name,
+      alt_name: null,
+      hours: null,
+      phone: null,
+      website: null,
+      display_point: center,
+      address_id: addressId,
+    },
+  };
+  const building: ImdfFeature = {
+    id: buildingId,
+    type: 'Feature',
+    feature_type: 'building',
+    geometry: null,
+    properties: {
+      name,
+      alt_name: null,
+      category: 'unspecified',
+      restriction: null,
+      display_point: center,
+      address_id: addressId,
+    },
+  };
+  const footprint: ImdfFeature = {
+    id: crypto.randomUUID(),
+    type: 'Feature',
+    feature_type: 'footprint',
+    geometry: extent,
+    properties: { category: 'ground', name: null, building_ids: [buildingId] },
+  };
+  const level: ImdfFeature = {
+    id: levelId,
+    type: 'Feature',
+    feature_type: 'level',
+    geometry: extent,
+    properties: {
+      category: 'unspecified',
+      restriction: null,
+      outdoor: false,
+      ordinal: plan.ordinal,
+      name: label(options.levelName),
+      short_name: label(options.levelName),
+      display_point: center,
+      address_id: null,
+      building_ids: [buildingId],
+    },
+  };
+  const unit: ImdfFeature = {
+    id: unitId,
+    type: 'Feature',
+    feature_type: 'unit',
+    geometry: extent,
+    properties: {
+      category: 'unspecified',
+      restriction: null,
+      accessibility: null,
+      name: label(options.levelName),
+      alt_name: null,
+      display_point: center,
+      level_id: levelId,
+    },
+  };
+  const fixtures = plan.barriers.map((barrier): ImdfFeature => ({
+    id: crypto.randomUUID(),
+    type: 'Feature',
+    feature_type: 'fixture',
+    geometry: polygon(barrier.coordinates),
+    properties: {
+      category: 'wall',
+      name: label(barrier.id),
+      alt_name: null,
+      anchor_id: null,
+      display_point: null,
+      level_id: levelId,
+    },
+  }));
+  // Anchors carry no device semantics in IMDF, so the planning attributes go into properties
+  // prefixed with the exporter's namespace, as the format allows for extensions.
+  const anchor = (kind: 'beacon' | 'antenna', id: string, position: Coordinate, attributes: Record<string, unknown>): ImdfFeature => ({
+    id: crypto.randomUUID(),
+    type: 'Feature',
+    feature_type: 'anchor',
+    geometry: point(position),
+    properties: {
+      address_id: null,
+      unit_id: unitId,
+      ext_device_kind: kind,
+      ext_device_id: id,
+      ...Object.fromEntries(Object.entries(attributes).map(([key, value]) => [`ext_${key}`, value])),
+    },
+  });
+  const anchors = [
+    ...plan.beacons.map((beacon) => anchor('beacon', beacon.id, beacon.position, { rssi: beacon.rssi ?? null })),
+    ...plan.antennas.map((antenna) => anchor('antenna', antenna.id, antenna.position, {
+      height: antenna.height,
+      angle: antenna.angle,
+      range: antenna.range,
+    })),
+  ];
+
+  const manifest = {
+    version: IMDF_VERSION,
+    created: new Date().toISOString(),
+    generated_by: 'calc-manage-map',
+    language: LANGUAGE,
+    extensions: null,
+  };
+
+  return zipSync({
+    'manifest.json': strToU8(JSON.stringify(manifest, null, 2)),
+    'address.geojson': strToU8(featureCollection([address])),
+    'venue.geojson': strToU8(featureCollection([venue])),
+    'building.geojson': strToU8(featureCollection([building])),
+    'footprint.geojson': strToU8(featureCollection([footprint])),
+    'level.geojson': strToU8(featureCollection([level])),
+    'unit.geojson': strToU8(featureCollection([unit])),
+    'fixture.geojson': strToU8(featureCollection(fixtures)),
+    'anchor.geojson': strToU8(featureCollection(anchors)),
+  });
+};
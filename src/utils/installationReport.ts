@@ -0,0 +1,207 @@
+import type { Content, TDocumentDefinitions } from 'pdfmake/interfaces';
+import { format } from 'date-fns';
+import { ru } from 'date-fns/locale';
+import { Coordinate } from 'ol/coordinate';
+import { Antenna, Beacon, PlacementSettings, PlanOrientation } from '@/types/plan';
+
+export interface ReportLayers {
+  beacons: boolean;
+  antennas: boolean;
+  barriers: boolean;
+}
+
+export interface InstallationReportData {
+  projectName: string;
+  floorName: string;
+  mapImage: string; // PNG data URL of the plan with the scale bar and north arrow drawn in
+  mapWidth: number; // meters
+  mapHeight: number; // meters
+  visibleLayers: ReportLayers;
+  coordinateSystem: string; // Human-readable description; device positions are given in it
+  georeference: string | null; // Human-readable description, null for plans without georeferencing
+  toLonLat?: (position: Coordinate) => Coordinate; // Adds latitude/longitude columns to the device tables
+  orientation: PlanOrientation; // northBearing is the effective one, also for georeferenced plans
+  beacons: Beacon[];
+  antennas: Antenna[];
+  barrierCount: number;
+  settings: PlacementSettings;
+  beaconRange: number; // meters, derived from the settings
+  beaconStep: number; // meters, derived from the settings
+  antennaRange: number; // meters, derived from the settings
+  antennaStep: number; // meters, derived from the settings
+  createdAt: Date;
+}
+
+// A4 landscape minus margins, in PDF points
+const PAGE_CONTENT_WIDTH = 842 - 2 * 40;
+const MAP_FIT_HEIGHT = 400;
+
+const LEGEND_ITEMS: { layer: keyof ReportLayers; label: string; swatch: Content }[] = [
+  {
+    layer: 'beacons',
+    label: 'Маяк',
+    swatch: { canvas: [{ type: 'ellipse', x: 6, y: 6, r1: 5, r2: 5, color: 'red' }], width: 14 },
+  },
+  {
+    layer: 'antennas',
+    label: 'Антенна и зона покрытия',
+    swatch: {
+      canvas: [
+        { type: 'ellipse', x: 6, y: 6, r1: 5, r2: 5, color: '#e5e5ff', lineColor: 'blue' },
+        { type: 'ellipse', x: 6, y: 6, r1: 2, r2: 2, color: 'blue' },
+      ],
+      width: 14,
+    },
+  },
+  {
+    layer: 'barriers',
+    label: 'Барьер',
+    swatch: { canvas: [{ type: 'rect', x: 1, y: 1, w: 10, h: 10, color: '#ffb3b3', lineColor: 'red' }], width: 14 },
+  },
+];
+
+const formatNumber = (value: number, digits = 2) => value.toFixed(digits);
+
+const table = (header: string[], rows: (string | number)[][], emptyText: string): Content => {
+  if (rows.length === 0) {
+    return { text: emptyText, italics: true, margin: [0, 0, 0, 12] };
+  }
+  return {
+    table: {
+      headerRows: 1,
+      widths: header.map((_, index) => (index === 0 ? '*' : 'auto')),
+      body: [
+        header.map((title) => ({ text: title, style: 'tableHeader' })),
+        ...rows.map((row) => row.map((cell) => String(cell))),
+      ],
+    },
+    layout: 'lightHorizontalLines',
+    margin: [0, 0, 0, 12],
+  };
+};
+
+export const buildInstallationReport = (data: InstallationReportData): TDocumentDefinitions => {
+  const { settings, toLonLat } = data;
+  const geoHeader = toLonLat ? ['Широта', 'Долгота'] : [];
+  const geoCells = (position: Coordinate) => {
+    if (!toLonLat) return [];
+    const [lon, lat] = toLonLat(position);
+    return [lat.toFixed(7), lon.toFixed(7)];
+  };
+  const legend = LEGEND_ITEMS
+    .filter((item) => data.visibleLayers[item.layer])
+    .map((item): Content => ({ columns: [item.swatch, { text: item.label }], columnGap: 4, margin: [0, 0, 0, 4] }));
+
+  return {
+    pageSize: 'A4',
+    pageOrientation: 'landscape',
+    pageMargins: [40, 40, 40, 40],
+    info: { title: `${data.projectName} — ${data.floorName}` },
+    defaultStyle: { fontSize: 10 },
+    styles: {
+      title: { fontSize: 28, bold: true },
+      subtitle: { fontSize: 18 },
+      heading: { fontSize: 14, bold: true, margin: [0, 0, 0, 8] },
+      tableHeader: { bold: true },
+    },
+    footer: (currentPage, pageCount) => ({
+      text: `${data.projectName} · ${data.floorName} · стр. ${currentPage} из ${pageCount}`,
+      alignment: 'center',
+      fontSize: 8,
+      color: 'gray',
+    }),
+    content: [
+      // Cover
+      { text: 'Отчет по размещению оборудования', style: 'subtitle', margin: [0, 140, 0, 16] },
+      { text: data.projectName, style: 'title' },
+      { text: data.floorName, style: 'subtitle', margin: [0, 8, 0, 24] },
+      {
+        table: {
+          body: [
+            ['Дата', format(data.createdAt, 'd MMMM yyyy, HH:mm', { locale: ru })],
+            ['Размер плана', `${formatNumber(data.mapWidth)} × ${formatNumber(data.mapHeight)} м`],
+            ['Система координат', data.coordinateSystem],
+            ...(data.georeference ? [['Геопривязка', data.georeference]] : []),
+            ['Поворот плана', `${formatNumber(data.orientation.rotation, 1)}°`],
+            ['Азимут оси Y плана', `${formatNumber(data.orientation.northBearing, 1)}° от севера`],
+            ['Маяков', String(data.beacons.length)],
+            ['Антенн', String(data.antennas.length)],
+            ['Барьеров', String(data.barrierCount)],
+          ],
+        },
+        layout: 'noBorders',
+      },
+
+      // Plan
+      { text: 'План этажа', style: 'heading', pageBreak: 'before' },
+      {
+        columns: [
+          { image: data.mapImage, fit: [PAGE_CONTENT_WIDTH - 160, MAP_FIT_HEIGHT], width: PAGE_CONTENT_WIDTH - 160 },
+          {
+            width: 150,
+            stack: [{ text: 'Условные обозначения', bold: true, margin: [0, 0, 0, 6] }, ...legend],
+          },
+        ],
+        columnGap: 10,
+      },
+
+      // Devices
+      { text: `Маяки (${data.beacons.length})`, style: 'heading', pageBreak: 'before' },
+      table(
+        ['ID', 'X, м', 'Y, м', ...geoHeader, 'RSSI, dBm'],
+        data.beacons.map((beacon) => [
+          beacon.id,
+          formatNumber(beacon.position[0]),
+          formatNumber(beacon.position[1]),
+          ...geoCells(beacon.position),
+          beacon.rssi ?? '—',
+        ]),
+        'Маяки не размещены.',
+      ),
+      { text: `Антенны (${data.antennas.length})`, style: 'heading' },
+      table(
+        ['ID', 'X, м', 'Y, м', ...geoHeader, 'Высота, м', 'Угол, °', 'Радиус, м'],
+        data.antennas.map((antenna) => [
+          antenna.id,
+          formatNumber(antenna.position[0]),
+          formatNumber(antenna.position[1]),
+          ...geoCells(antenna.position),
+          formatNumber(antenna.height, 1),
+          antenna.angle,
+          formatNumber(antenna.range, 1),
+        ]),
+        'Антенны не размещены.',
+      ),
+
+      // Settings
+      { text: 'Параметры авто-расстановки', style: 'heading' },
+      table(
+        ['Параметр', 'Значение'],
+        [
+          ['Мощность передатчика антенн', `${settings.propagation.txPower} dBm`],
+          ['RSSI антенн на 1 м', `${settings.propagation.rssiAt1m} dBm`],
+          ['Показатель затухания', formatNumber(settings.propagation.pathLossExponent)],
+          ['Чувствительность приемника', `${settings.propagation.sensitivity} dBm`],
+          ['RSSI маяков на 1 м', `${settings.autoRssi} dBm`],
+          ['Радиус покрытия маяков', `${formatNumber(data.beaconRange)} м`],
+          ['Шаг расстановки маяков', `${formatNumber(data.beaconStep)} м`],
+          ['Высота антенн', `${settings.autoAntennaHeight} м`],
+          ['Угол антенн', `${settings.autoAntennaAngle}°`],
+          ['Радиус покрытия антенн', `${formatNumber(data.antennaRange)} м`],
+          ['Шаг расстановки антенн', `${formatNumber(data.antennaStep)} м`],
+        ],
+        '',
+      ),
+    ],
+  };
+};
+
+// pdfmake and its embedded fonts (Roboto, with Cyrillic) weigh a few megabytes, so they are loaded on demand.
+export const createInstallationReportPdf = async (data: InstallationReportData): Promise<Blob> => {
+  const [{ default: pdfMake }, { default: vfs }] = await Promise.all([
+    import('pdfmake/build/pdfmake'),
+    import('pdfmake/build/vfs_fonts'),
+  ]);
+  pdfMake.addVirtualFileSystem(vfs);
+  return pdfMake.createPdf(buildInstallationReport(data)).getBlob();
+};
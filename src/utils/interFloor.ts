@@ -0,0 +1,188 @@
+import { Coordinate } from 'ol/coordinate';
+import { Floor, PropagationModel } from '@/types/plan';
+import { sortFloors } from '@/utils/building';
+import {
+  BEACON_MOUNT_HEIGHT,
+  getBeaconRssiAt1m,
+  getExpectedRssi,
+  getWallLoss,
+  RECEIVER_HEIGHT,
+} from '@/utils/propagation';
+
+// Signal of devices on other floors of the building, heard on one floor. The project's path-loss
+// model with a fixed loss per floor slab crossed. Floor plans are assumed to share the building's frame, i.e.
+// the same point of the building has the same map coordinates on every floor. Barriers of the analyzed
+// floor weaken its own devices; signal from other floors comes mostly through the slab and ignores them.
+// Computed in a worker like the signal grids, so this module is kept free of DOM and OpenLayers imports
+// (types aside) as well.
+
+export interface InterFloorSettings {
+  slabAttenuation: number; // dB per floor slab between the device and the receiver
+  threshold: number; // dBm, weakest signal that still counts as heard
+}
+
+export const DEFAULT_INTER_FLOOR_SETTINGS: InterFloorSettings = {
+  slabAttenuation: 15,
+  threshold: -85,
+};
+
+export interface BleedingDevice {
+  kind: 'beacon' | 'antenna';
+  id: string;
+  floorId: string;
+  floorName: string;
+  position: Coordinate; // map coordinates, shared by all floors
+  peakRssi: number; // dBm, strongest signal anywhere on the analyzed floor
+  footprintRadius: number; // meters around `position` where the signal is above the threshold
+}
+
+// Only what the analysis reads, so that plan images are not copied to the worker
+export type InterFloorFloor = Pick<
+  Floor,
+  'id' | 'name' | 'elevation' | 'mapWidth' | 'mapHeight' | 'beacons' | 'antennas' | 'barriers'
+>;
+
+export interface InterFloorRequest {
+  floors: InterFloorFloor[];
+  targetFloorId: string;
+  settings: InterFloorSettings;
+  model: PropagationModel;
+}
+
+export interface InterFloorAnalysis {
+  floorId: string; // The analyzed floor
+  devices: BleedingDevice[]; // Devices of other floors heard above the threshold, strongest first
+  cellSize: number; // meters
+  sampledCells: number;
+  wrongFloorCells: Coordinate[]; // Centers of cells where the strongest signal comes from another floor
+}
+
+export type InterFloorWorkerMessage =
+  | { type: 'progress'; done: number; total: number }
+  | { type: 'done'; analysis: InterFloorAnalysis }
+  | { type: 'error'; message: string };
+
+export class InterFloorError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InterFloorError';
+  }
+}
+
+export const toInterFloorFloor = (
+  { id, name, elevation, mapWidth, mapHeight, beacons, antennas, barriers }: Floor,
+): InterFloorFloor => ({ id, name, elevation, mapWidth, mapHeight, beacons, antennas, barriers });
+
+const MAX_SAMPLED_CELLS = 10000;
+
+interface Transmitter {
+  kind: BleedingDevice['kind'];
+  id: string;
+  floor: InterFloorFloor;
+  position: Coordinate;
+  mountElevation: number; // meters, absolute
+  rssiAt1m: number; // dBm
+}
+
+interface OtherFloorTransmitter extends Transmitter {
+  slabLoss: number; // dB
+}
+
+const getTransmitters = (floor: InterFloorFloor, model: PropagationModel): Transmitter[] => [
+  ...floor.beacons.map((beacon): Transmitter => ({
+    kind: 'beacon',
+    id: beacon.id,
+    floor,
+    position: beacon.position,
+    mountElevation: floor.elevation + BEACON_MOUNT_HEIGHT,
+    rssiAt1m: getBeaconRssiAt1m(model, beacon.rssi),
+  })),
+  ...floor.antennas.map((antenna): Transmitter => ({
+    kind: 'antenna',
+    id: antenna.id,
+    floor,
+    position: antenna.position,
+    mountElevation: floor.elevation + antenna.height,
+    rssiAt1m: model.rssiAt1m,
+  })),
+];
+
+const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
+
+export const analyzeInterFloor = (
+  { floors, targetFloorId, settings, model }: InterFloorRequest,
+  onRow?: (done: number, total: number) => void,
+): InterFloorAnalysis => {
+  const sorted = sortFloors(floors);
+  const targetIndex = sorted.findIndex((floor) => floor.id === targetFloorId);
+  const target = sorted[targetIndex];
+  const receiverElevation = target.elevation + RECEIVER_HEIGHT;
+
+  const own = getTransmitters(target, model);
+  const others = sorted.flatMap((floor, index): OtherFloorTransmitter[] => {
+    if (index === targetIndex) return [];
+    const slabLoss = Math.abs(index - targetIndex) * settings.slabAttenuation;
+    return getTransmitters(floor, model).map((transmitter) => ({ ...transmitter, slabLoss }));
+  });
+
+  const rssiAt = (transmitter: Transmitter, [x, y]: Coordinate, slabLoss = 0) => {
+    const distance = Math.hypot(
+      transmitter.position[0] - x,
+      transmitter.position[1] - y,
+      transmitter.mountElevation - receiverElevation,
+    );
+    return getExpectedRssi(model, transmitter.rssiAt1m, distance) - slabLoss;
+  };
+
+  // Strongest where the receiver is closest: straight above or below, or at the nearest plan edge
+  const peakRssi = (transmitter: OtherFloorTransmitter) => rssiAt(transmitter, [
+    clamp(transmitter.position[0], 0, target.mapWidth),
+    clamp(transmitter.position[1], 0, target.mapHeight),
+  ], transmitter.slabLoss);
+  const heardOthers = others.filter((transmitter) => peakRssi(transmitter) >= settings.threshold);
+
+  const devices = heardOthers
+    .map((transmitter): BleedingDevice => {
+      const verticalDistance = Math.abs(transmitter.mountElevation - receiverElevation);
+      const linkBudget = transmitter.rssiAt1m - transmitter.slabLoss - settings.threshold;
+      const reach = 10 ** (linkBudget / (10 * model.pathLossExponent));
+      return {
+        kind: transmitter.kind,
+        id: transmitter.id,
+        floorId: transmitter.floor.id,
+        floorName: transmitter.floor.name,
+        position: transmitter.position,
+        peakRssi: peakRssi(transmitter),
+        footprintRadius: Math.sqrt(Math.max(0, reach * reach - verticalDistance * verticalDistance)),
+      };
+    })
+    .sort((a, b) => b.peakRssi - a.peakRssi);
+
+  const cellSize = Math.max(1, Math.sqrt((target.mapWidth * target.mapHeight) / MAX_SAMPLED_CELLS));
+  const columns = Math.ceil(target.mapWidth / cellSize);
+  const rows = Math.ceil(target.mapHeight / cellSize);
+  const wrongFloorCells: Coordinate[] = [];
+
+  if (heardOthers.length > 0) {
+    for (let row = 0; row < rows; row++) {
+      for (let column = 0; column < columns; column++) {
+        const center = [(column + 0.5) * cellSize, (row + 0.5) * cellSize];
+        const bestOther = Math.max(
+          ...heardOthers.map((transmitter) => rssiAt(transmitter, center, transmitter.slabLoss)),
+        );
+        if (bestOther < settings.threshold) continue;
+        // Walls only take signal away, so they are traced just for devices that would win without them
+        const isOwnStronger = own.some((transmitter) => {
+          const rssi = rssiAt(transmitter, center);
+          return rssi >= bestOther && rssi - getWallLoss(target.barriers, transmitter.position, center) >= bestOther;
+        });
+        if (!isOwnStronger) {
+          wrongFloorCells.push(center);
+        }
+      }
+      onRow?.(row + 1, rows);
+    }
+  }
+
+  return { floorId: targetFloorId, devices, cellSize, sampledCells: columns * rows, wrongFloorCells };
+};
@@ -0,0 +1,47 @@
+import { CellColor } from '@/utils/gridImage';
+import { getCellArea, SignalGrid } from '@/utils/signalGrid';
+
+// Readiness for trilateration: how many beacons are heard above a usable RSSI at each point.
+// Positioning needs at least three.
+
+export interface KCoverageSettings {
+  isVisible: boolean;
+  threshold: number; // dBm, weakest signal still usable for positioning
+}
+
+export const DEFAULT_K_COVERAGE_SETTINGS: KCoverageSettings = {
+  isVisible: false,
+  threshold: -80,
+};
+
+export const K_COVERAGE_CELL_SIZE = 1; // meters, coarser on large plans
+
+export const TRILATERATION_BEACONS = 3;
+
+// Levels 0, 1, 2 and 3 or more beacons heard
+export const K_COVERAGE_LEVELS = TRILATERATION_BEACONS + 1;
+
+export const K_COVERAGE_COLORS: [number, number, number][] = [
+  [220, 38, 38],
+  [249, 115, 22],
+  [234, 179, 8],
+  [22, 163, 74],
+];
+
+export const getKCoverageLevel = (heard: number): number => Math.min(heard, TRILATERATION_BEACONS);
+
+// Share of the plan area outside barriers at each level, from 0 beacons heard up.
+export const getKCoverageShares = (grid: SignalGrid): number[] => {
+  const areas = new Array<number>(K_COVERAGE_LEVELS).fill(0);
+  let openArea = 0;
+  grid.heard.forEach((heard, index) => {
+    if (Number.isNaN(grid.rssi[index])) return;
+    const area = getCellArea(grid, index);
+    areas[getKCoverageLevel(heard)] += area;
+    openArea += area;
+  });
+  return areas.map((area) => (openArea > 0 ? area / openArea : 0));
+};
+
+export const getKCoverageCellColor = (grid: SignalGrid) => (index: number): CellColor =>
+  Number.isNaN(grid.rssi[index]) ? null : K_COVERAGE_COLORS[getKCoverageLevel(grid.heard[index])];
@@ -0,0 +1,56 @@
+import Projection from 'ol/proj/Projection';
+import { Coordinate } from 'ol/coordinate';
+import { CoordinateSystem, OriginCorner } from '@/types/plan';
+
+// Flat Cartesian projection in meters covering the plan. Unlike EPSG:3857 it has no scale distortion,
+// so resolutions, scale bars and measurements on the map are true distances on the floor.
+export const createPlanProjection = (width: number, height: number): Projection => {
+  return new Projection({
+    code: 'PLAN-LOCAL',
+    units: 'm',
+    extent: [0, 0, width, height],
+  });
+};
+
+export const ORIGIN_CORNER_LABELS: Record<OriginCorner, string> = {
+  'bottom-left': 'Левый нижний угол',
+  'top-left': 'Левый верхний угол',
+  'top-right': 'Правый верхний угол',
+  'bottom-right': 'Правый нижний угол',
+};
+
+export const Y_AXIS_LABELS: Record<CoordinateSystem['yAxis'], string> = {
+  up: 'Вверх',
+  down: 'Вниз',
+};
+
+// From a right corner the X axis points left, so that the whole plan has non-negative X
+const isMirroredX = (system: CoordinateSystem) => system.origin.endsWith('right');
+
+export const describeCoordinateSystem = (system: CoordinateSystem) =>
+  `начало — ${ORIGIN_CORNER_LABELS[system.origin].toLowerCase()}, ось X — ${isMirroredX(system) ? 'влево' : 'вправо'}, `
+  + `ось Y — ${Y_AXIS_LABELS[system.yAxis].toLowerCase()}`;
+
+interface PlanSize {
+  width: number; // meters
+  height: number; // meters
+}
+
+const getOrigin = (system: CoordinateSystem, { width, height }: PlanSize): Coordinate => [
+  system.origin.endsWith('right') ? width : 0,
+  system.origin.startsWith('top') ? height : 0,
+];
+
+// Map coordinates to the coordinates of the user's drawing. Map coordinates start at the bottom-left
+// corner with X to the right and Y up; the drawing moves the origin to the chosen corner, mirrors X
+// for a right corner and points Y as chosen.
+export const toDrawingCoordinate = (system: CoordinateSystem, size: PlanSize, [x, y]: Coordinate): Coordinate => {
+  const [originX, originY] = getOrigin(system, size);
+  return [isMirroredX(system) ? originX - x : x - originX, system.yAxis === 'up' ? y - originY : originY - y];
+};
+
+// Coordinates of the user's drawing to map coordinates.
+export const fromDrawingCoordinate = (system: CoordinateSystem, size: PlanSize, [x, y]: Coordinate): Coordinate => {
+  const [originX, originY] = getOrigin(system, size);
+  return [isMirroredX(system) ? originX - x : originX + x, system.yAxis === 'up' ? originY + y : originY - y];
+};
@@ -0,0 +1,125 @@
+import { Map } from 'ol';
+import { Extent } from 'ol/extent';
+
+const SCALE_BAR_STEPS = [1, 2, 5];
+
+// Largest "round" length (1, 2, 5 × 10^n meters) that fits into the given length.
+const niceLength = (maxMeters: number) => {
+  const magnitude = Math.pow(10, Math.floor(Math.log10(maxMeters)));
+  const step = [...SCALE_BAR_STEPS].reverse().find((s) => s * magnitude <= maxMeters) ?? 1;
+  return step * magnitude;
+};
+
+export const drawScaleBar = (canvas: HTMLCanvasElement, metersPerPixel: number) => {
+  const context = canvas.getContext('2d');
+  if (!context) return;
+  const lengthMeters = niceLength((canvas.width / 5) * metersPerPixel);
+  const lengthPixels = lengthMeters / metersPerPixel;
+  const unit = Math.max(1, Math.round(canvas.width / 600));
+  const x = 16 * unit;
+  const y = canvas.height - 16 * unit;
+
+  context.save();
+  context.fillStyle = 'rgba(255, 255, 255, 0.85)';
+  context.fillRect(x - 8 * unit, y - 26 * unit, lengthPixels + 16 * unit, 34 * unit);
+  context.fillStyle = 'black';
+  context.fillRect(x, y - 4 * unit, lengthPixels / 2, 4 * unit);
+  context.strokeStyle = 'black';
+  context.lineWidth = unit;
+  context.strokeRect(x, y - 4 * unit, lengthPixels, 4 * unit);
+  context.font = `${12 * unit}px sans-serif`;
+  context.fillText(`${lengthMeters} м`, x, y - 10 * unit);
+  context.restore();
+};
+
+// North arrow in the top right corner; `angle` is the screen direction of north, degrees clockwise from up.
+export const drawNorthArrow = (canvas: HTMLCanvasElement, angle: number) => {
+  const context = canvas.getContext('2d');
+  if (!context) return;
+  const unit = Math.max(1, Math.round(canvas.width / 600));
+  const radius = 22 * unit;
+
+  context.save();
+  context.translate(canvas.width - radius - 12 * unit, radius + 12 * unit);
+  context.fillStyle = 'rgba(255, 255, 255, 0.85)';
+  context.beginPath();
+  context.arc(0, 0, radius, 0, 2 * Math.PI);
+  context.fill();
+  context.rotate((angle * Math.PI) / 180);
+  context.fillStyle = '#dc2626';
+  context.beginPath();
+  context.moveTo(0, -10 * unit);
+  context.lineTo(7 * unit, 14 * unit);
+  context.lineTo(0, 9 * unit);
+  context.lineTo(-7 * unit, 14 * unit);
+  context.closePath();
+  context.fill();
+  context.fillStyle = 'black';
+  context.font = `bold ${10 * unit}px sans-serif`;
+  context.textAlign = 'center';
+  context.fillText('С', 0, -12 * unit);
+  context.restore();
+};
+
+// Composites all layer canvases of the map into one canvas, as in the OpenLayers export example.
+const compositeMapCanvas = (map: Map): HTMLCanvasElement => {
+  const size = map.getSize() ?? [0, 0];
+  const pixelRatio = window.devicePixelRatio || 1;
+  const result = document.createElement('canvas');
+  result.width = Math.round(size[0] * pixelRatio);
+  result.height = Math.round(size[1] * pixelRatio);
+  const context = result.getContext('2d')!;
+  context.fillStyle = 'white';
+  context.fillRect(0, 0, result.width, result.height);
+
+  map.getViewport().querySelectorAll<HTMLCanvasElement>('.ol-layer canvas, canvas.ol-layer').forEach((canvas) => {
+    if (canvas.width === 0) return;
+    const parent = canvas.parentElement as HTMLElement | null;
+    const opacity = canvas.style.opacity || parent?.style.opacity;
+    context.globalAlpha = opacity === '' || opacity === undefined ? 1 : Number(opacity);
+    const transform = canvas.style.transform;
+    const matrix = transform.match(/^matrix\(([^(]*)\)$/)?.[1].split(',').map(Number);
+    if (matrix) {
+      context.setTransform(matrix[0], matrix[1], matrix[2], matrix[3], matrix[4], matrix[5]);
+    } else {
+      context.setTransform(canvas.width / result.width, 0, 0, canvas.height / result.height, 0, 0);
+    }
+    context.drawImage(canvas, 0, 0);
+  });
+  context.globalAlpha = 1;
+  context.setTransform(1, 0, 0, 1, 0, 0);
+  return result;
+};
+
+// Renders the map fitted to `extent` (or as currently shown), returns the image and restores the view.
+export const captureMap = (
+  map: Map,
+  extent?: Extent,
+): Promise<{ canvas: HTMLCanvasElement; metersPerPixel: number }> => {
+  const view = map.getView();
+  const previousCenter = view.getCenter();
+  const previousResolution = view.getResolution();
+  const previousRotation = view.getRotation();
+
+  return new Promise((resolve, reject) => {
+    map.once('rendercomplete', () => {
+      try {
+        const canvas = compositeMapCanvas(map);
+        const metersPerPixel = (view.getResolution() ?? 1) / (window.devicePixelRatio || 1);
+        resolve({ canvas, metersPerPixel });
+      } catch (error) {
+        reject(error);
+      } finally {
+        if (extent) {
+          view.setCenter(previousCenter);
+          view.setResolution(previousResolution);
+          view.setRotation(previousRotation);
+        }
+      }
+    });
+    if (extent) {
+      view.fit(extent, { padding: [16, 16, 16, 16] });
+    }
+    map.renderSync();
+  });
+};
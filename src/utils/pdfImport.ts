@@ -0,0 +1,82 @@
+import { getDocument, GlobalWorkerOptions, PDFDocumentProxy } from 'pdfjs-dist';
+import pdfWorkerUrl from 'pdfjs-dist/build/pdf.worker.min.mjs?url';
+
+GlobalWorkerOptions.workerSrc = pdfWorkerUrl;
+
+// PDF user space unit: 1/72 inch
+const PDF_POINT_METERS = 0.0254 / 72;
+// Large enough for crisp plans, small enough for the browser to hold as one image
+const MAX_RENDER_PIXELS = 8192;
+
+export class PdfImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PdfImportError';
+  }
+}
+
+export interface PdfPageSize {
+  pageNumber: number;
+  widthPoints: number;
+  heightPoints: number;
+}
+
+export interface RenderedPdfPage {
+  imageSrc: string; // PNG data URL
+  widthPixels: number;
+  heightPixels: number;
+}
+
+export const openPdf = async (data: ArrayBuffer): Promise<PDFDocumentProxy> => {
+  try {
+    return await getDocument({ data }).promise;
+  } catch (error) {
+    console.error('Ошибка открытия PDF:', error);
+    throw new PdfImportError('Не удалось открыть PDF-файл. Возможно, он поврежден или защищен паролем.');
+  }
+};
+
+export const getPdfPageSizes = async (pdf: PDFDocumentProxy): Promise<PdfPageSize[]> => {
+  const sizes: PdfPageSize[] = [];
+  for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+    const page = await pdf.getPage(pageNumber);
+    const viewport = page.getViewport({ scale: 1 });
+    sizes.push({ pageNumber, widthPoints: viewport.width, heightPoints: viewport.height });
+  }
+  return sizes;
+};
+
+// Real-world size of the drawing on a page printed at 1:scaleDenominator.
+export const pageSizeToMeters = (page: PdfPageSize, scaleDenominator: number) => ({
+  width: page.widthPoints * PDF_POINT_METERS * scaleDenominator,
+  height: page.heightPoints * PDF_POINT_METERS * scaleDenominator,
+});
+
+export const renderPdfPage = async (
+  pdf: PDFDocumentProxy,
+  pageNumber: number,
+  dpi: number,
+): Promise<RenderedPdfPage> => {
+  const page = await pdf.getPage(pageNumber);
+  const pageViewport = page.getViewport({ scale: 1 });
+  const scale = Math.min(dpi / 72, MAX_RENDER_PIXELS / Math.max(pageViewport.width, pageViewport.height));
+  const viewport = page.getViewport({ scale });
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.floor(viewport.width);
+  canvas.height = Math.floor(viewport.height);
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new PdfImportError('Браузер не смог создать холст для отрисовки PDF.');
+  }
+  // Plans often have a transparent background, which would show the map's background through the image
+  context.fillStyle = 'white';
+  context.fillRect(0, 0, canvas.width, canvas.height);
+
+  await page.render({ canvasContext: context, viewport }).promise;
+  return {
+    imageSrc: canvas.toDataURL('image/png'),
+    widthPixels: canvas.width,
+    heightPixels: canvas.height,
+  };
+};
@@ -0,0 +1,157 @@
+import { Coordinate } from 'ol/coordinate';
+import { boundingExtent, Extent } from 'ol/extent';
+import { canvasToDataUrl, ImageSize, loadImage } from '@/utils/image';
+
+// Placement of a new revision of the plan image on the current plan, so that everything placed
+// keeps its spot in the building. Image pixels count from the top-left corner, plan meters from
+// the bottom-left corner with y pointing up.
+export interface PlanAlignment {
+  offsetX: number; // meters, where the bottom-left corner of the new image lands on the current plan
+  offsetY: number; // meters
+  rotation: number; // degrees clockwise around that corner
+  scale: number; // meters per pixel of the new image
+}
+
+// The same spot of the building picked on the current plan and on the new image.
+export interface AlignmentPointPair {
+  plan: Coordinate; // meters
+  image: Coordinate; // pixels of the new image
+}
+
+export const MIN_ALIGNMENT_POINT_PAIRS = 2;
+
+export interface PlanSize {
+  width: number; // meters
+  height: number; // meters
+}
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+const normalizeDegrees = (degrees: number) => ((degrees % 360) + 360) % 360;
+
+// The new image over the whole width of the current plan, bottom-left corners together.
+export const createInitialAlignment = (plan: PlanSize, image: ImageSize): PlanAlignment => ({
+  offsetX: 0,
+  offsetY: 0,
+  rotation: 0,
+  scale: plan.width / image.width,
+});
+
+export const imageToPlan = (alignment: PlanAlignment, image: ImageSize, [px, py]: Coordinate): Coordinate => {
+  const angle = toRadians(alignment.rotation);
+  const u = px * alignment.scale;
+  const v = (image.height - py) * alignment.scale;
+  return [
+    alignment.offsetX + u * Math.cos(angle) + v * Math.sin(angle),
+    alignment.offsetY - u * Math.sin(angle) + v * Math.cos(angle),
+  ];
+};
+
+export const planToImage = (alignment: PlanAlignment, image: ImageSize, [x, y]: Coordinate): Coordinate => {
+  const angle = toRadians(alignment.rotation);
+  const dx = x - alignment.offsetX;
+  const dy = y - alignment.offsetY;
+  const u = dx * Math.cos(angle) - dy * Math.sin(angle);
+  const v = dx * Math.sin(angle) + dy * Math.cos(angle);
+  return [u / alignment.scale, image.height - v / alignment.scale];
+};
+
+// Least-squares similarity (shift, rotation, uniform scale) through the point pairs. Returns null
+// while there are too few pairs or the picked image points coincide.
+export const fitAlignment = (pairs: AlignmentPointPair[], image: ImageSize): PlanAlignment | null => {
+  if (pairs.length < MIN_ALIGNMENT_POINT_PAIRS) return null;
+
+  // Image points in plan orientation (y up), so that plan = c·source + t with c a complex number
+  const sources = pairs.map(({ image: [px, py] }) => [px, image.height - py]);
+  const targets = pairs.map(({ plan }) => plan);
+  const mean = (points: number[][], axis: number) =>
+    points.reduce((sum, point) => sum + point[axis], 0) / points.length;
+  const [sourceX, sourceY] = [mean(sources, 0), mean(sources, 1)];
+  const [targetX, targetY] = [mean(targets, 0), mean(targets, 1)];
+
+  let re = 0;
+  let im = 0;
+  let norm = 0;
+  sources.forEach(([sx, sy], index) => {
+    const u = sx - sourceX;
+    const v = sy - sourceY;
+    const x = targets[index][0] - targetX;
+    const y = targets[index][1] - targetY;
+    re += x * u + y * v;
+    im += y * u - x * v;
+    norm += u * u + v * v;
+  });
+  if (norm === 0) return null;
+
+  const cRe = re / norm;
+  const cIm = im / norm;
+  const scale = Math.hypot(cRe, cIm);
+  if (scale === 0) return null;
+  return {
+    offsetX: targetX - (cRe * sourceX - cIm * sourceY),
+    offsetY: targetY - (cIm * sourceX + cRe * sourceY),
+    // Counterclockwise in the complex plane is clockwise negative
+    rotation: normalizeDegrees((-Math.atan2(cIm, cRe) * 180) / Math.PI),
+    scale,
+  };
+};
+
+// Distance in meters between each picked plan point and its image point as placed by `alignment`.
+export const getAlignmentResiduals = (
+  alignment: PlanAlignment,
+  image: ImageSize,
+  pairs: AlignmentPointPair[],
+): number[] =>
+  pairs.map((pair) => {
+    const [x, y] = imageToPlan(alignment, image, pair.image);
+    return Math.hypot(x - pair.plan[0], y - pair.plan[1]);
+  });
+
+// Bounding box of the aligned new image on the current plan, in meters.
+export const getAlignedExtent = (alignment: PlanAlignment, image: ImageSize): Extent =>
+  boundingExtent([
+    [0, 0],
+    [image.width, 0],
+    [image.width, image.height],
+    [0, image.height],
+  ].map((corner) => imageToPlan(alignment, image, corner)));
+
+export interface AlignedPlanImage {
+  imageSrc: string;
+  extent: Extent; // meters of the current plan covered by the image
+}
+
+// The new image as a plan over its aligned extent. Rotated images are resampled onto an upright
+// canvas of the same resolution; upright ones are used as they are.
+export const renderAlignedImage = async (
+  src: string,
+  alignment: PlanAlignment,
+  image: ImageSize,
+): Promise<AlignedPlanImage> => {
+  const extent = getAlignedExtent(alignment, image);
+  if (normalizeDegrees(alignment.rotation) === 0) {
+    return { imageSrc: src, extent };
+  }
+
+  const [minX, minY, maxX, maxY] = extent;
+  const angle = toRadians(alignment.rotation);
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round((maxX - minX) / alignment.scale));
+  canvas.height = Math.max(1, Math.round((maxY - minY) / alignment.scale));
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Не удалось подготовить изображение плана.');
+
+  // Corners outside the rotated image stay white, as on paper, also in JPEG
+  context.fillStyle = 'white';
+  context.fillRect(0, 0, canvas.width, canvas.height);
+  // Image pixels to canvas pixels: the rotation about the bottom-left corner, then the shift to the box
+  context.setTransform(
+    Math.cos(angle),
+    Math.sin(angle),
+    -Math.sin(angle),
+    Math.cos(angle),
+    (alignment.offsetX - minX) / alignment.scale + image.height * Math.sin(angle),
+    (maxY - alignment.offsetY) / alignment.scale - image.height * Math.cos(angle),
+  );
+  context.drawImage(await loadImage(src), 0, 0);
+  return { imageSrc: canvasToDataUrl(canvas, src), extent };
+};
@@ -0,0 +1,266 @@
+import { z } from 'zod';
+import {
+  BARRIER_MATERIAL_ATTENUATION,
+  CoordinateSystem,
+  DEFAULT_BARRIER_MATERIAL,
+  DEFAULT_BASEMAP_ADJUSTMENTS,
+  DEFAULT_COORDINATE_SYSTEM,
+  DEFAULT_PLAN_ORIENTATION,
+  DEFAULT_PROPAGATION_MODEL,
+  Floor,
+  PlacementSettings,
+  PlanOrientation,
+} from '@/types/plan';
+import { DEFAULT_INTER_FLOOR_SETTINGS, InterFloorSettings } from '@/utils/interFloor';
+import { toPortableImageSrc } from '@/utils/image';
+
+export const PROJECT_FILE_FORMAT = 'calc-manage-map-project';
+export const PROJECT_FILE_VERSION = 10;
+
+export interface ProjectData {
+  floors: Floor[]; // Ordered by elevation, at least one
+  settings: PlacementSettings;
+  coordinateSystem: CoordinateSystem;
+  orientation: PlanOrientation;
+  interFloor: InterFloorSettings;
+}
+
+export class ProjectFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProjectFileError';
+  }
+}
+
+const coordinateSchema = z.array(z.number()).min(2);
+
+const floorSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  elevation: z.number(),
+  mapImageSrc: z.string().nullable(),
+  vectorBasemap: z.object({
+    source: z.enum(['dxf', 'svg']),
+    layers: z.array(z.string()),
+    paths: z.array(z.object({
+      layer: z.string(),
+      coordinates: z.array(coordinateSchema),
+      closed: z.boolean(),
+      color: z.string().optional(),
+    })),
+  }).nullable(),
+  basemapAdjustments: z.object({
+    opacity: z.number().min(0).max(100),
+    grayscale: z.number().min(0).max(100),
+    brightness: z.number().nonnegative(),
+    contrast: z.number().nonnegative(),
+    invert: z.boolean(),
+  }),
+  mapWidth: z.number().positive(),
+  mapHeight: z.number().positive(),
+  beacons: z.array(z.object({
+    id: z.string(),
+    position: coordinateSchema,
+    rssi: z.number().optional(),
+    extra: z.record(z.string()).optional(),
+  })),
+  antennas: z.array(z.object({
+    id: z.string(),
+    position: coordinateSchema,
+    height: z.number(),
+    angle: z.number(),
+    range: z.number(),
+    extra: z.record(z.string()).optional(),
+  })),
+  barriers: z.array(z.object({
+    id: z.string(),
+    coordinates: z.array(z.array(coordinateSchema)),
+    material: z.enum(['drywall', 'glass', 'brick', 'concrete', 'metal', 'custom']),
+    attenuation: z.number().nonnegative(),
+  })),
+  georeference: z.object({
+    method: z.enum(['similarity', 'affine']),
+    controlPoints: z.array(z.object({
+      id: z.string(),
+      position: coordinateSchema,
+      lonLat: coordinateSchema,
+    })),
+  }).nullable(),
+});
+
+const projectSchema = z.object({
+  floors: z.array(floorSchema).min(1),
+  settings: z.object({
+    autoRssi: z.number(),
+    autoAntennaHeight: z.number(),
+    autoAntennaAngle: z.number(),
+    propagation: z.object({
+      txPower: z.number(),
+      rssiAt1m: z.number(),
+      pathLossExponent: z.number().positive(),
+      sensitivity: z.number(),
+    }),
+  }),
+  coordinateSystem: z.object({
+    origin: z.enum(['bottom-left', 'top-left', 'top-right', 'bottom-right']),
+    yAxis: z.enum(['up', 'down']),
+  }),
+  orientation: z.object({
+    rotation: z.number(),
+    northBearing: z.number(),
+  }),
+  interFloor: z.object({
+    slabAttenuation: z.number().nonnegative(),
+    threshold: z.number(),
+  }),
+});
+
+const fileSchema = z.object({
+  format: z.literal(PROJECT_FILE_FORMAT),
+  version: z.number().int().positive(),
+  project: z.unknown(),
+});
+
+// migrations[n] upgrades the `project` payload of a version n file to version n + 1.
+const migrations: Record<number, (project: unknown) => unknown> = {
+  // v2: vector basemaps imported from drawings
+  1: (project) => ({ ...(project as object), vectorBasemap: null }),
+  // v3: configurable origin corner and y-axis direction of displayed coordinates
+  2: (project) => ({ ...(project as object), coordinateSystem: DEFAULT_COORDINATE_SYSTEM }),
+  // v4: georeferencing by control points
+  3: (project) => ({ ...(project as object), georeference: null }),
+  // v5: view rotation and north direction
+  4: (project) => ({ ...(project as object), orientation: DEFAULT_PLAN_ORIENTATION }),
+  // v6: buildings with several floors; the single plan becomes the first floor
+  5: (project) => {
+    const {
+      mapImageSrc,
+      vectorBasemap,
+      mapWidth,
+      mapHeight,
+      beacons,
+      antennas,
+      barriers,
+      georeference,
+      ...building
+    } = project as Record<string, unknown>;
+    return {
+      ...building,
+      floors: [{
+        id: 'floor-1',
+        name: 'Этаж 1',
+        elevation: 0,
+        mapImageSrc,
+        vectorBasemap,
+        mapWidth,
+        mapHeight,
+        beacons,
+        antennas,
+        barriers,
+        georeference,
+      }],
+    };
+  },
+  // v7: signal attenuation of floor slabs for the inter-floor analysis
+  6: (project) => ({ ...(project as object), interFloor: DEFAULT_INTER_FLOOR_SETTINGS }),
+  // v8: opacity and colour adjustments of plan images
+  7: (project) => {
+    const { floors, ...building } = project as { floors: object[] };
+    return {
+      ...building,
+      floors: floors.map((floor) => ({ ...floor, basemapAdjustments: DEFAULT_BASEMAP_ADJUSTMENTS })),
+    };
+  },
+  // v9: path-loss propagation model; beacon spacing now follows from it. The old default RSSI
+  // of 70 was a positive placeholder and becomes a typical measured power at 1 m.
+  8: (project) => {
+    const { settings, ...rest } = project as { settings: { autoRssi: number } };
+    return {
+      ...rest,
+      settings: {
+        ...settings,
+        autoRssi: settings.autoRssi < 0 ? settings.autoRssi : DEFAULT_PROPAGATION_MODEL.rssiAt1m,
+        propagation: DEFAULT_PROPAGATION_MODEL,
+      },
+    };
+  },
+  // v10: barrier materials attenuating the signal; earlier barriers are taken as concrete walls
+  9: (project) => {
+    const { floors, ...building } = project as { floors: { barriers: object[] }[] };
+    return {
+      ...building,
+      floors: floors.map((floor) => ({
+        ...floor,
+        barriers: floor.barriers.map((barrier) => ({
+          ...barrier,
+          material: DEFAULT_BARRIER_MATERIAL,
+          attenuation: BARRIER_MATERIAL_ATTENUATION[DEFAULT_BARRIER_MATERIAL],
+        })),
+      })),
+    };
+  },
+};
+
+// Plan images held as object URLs are embedded, so that the file opens in another session
+export const serializeProject = async (project: ProjectData): Promise<string> => {
+  const floors = await Promise.all(project.floors.map(async (floor) => ({
+    ...floor,
+    mapImageSrc: floor.mapImageSrc && await toPortableImageSrc(floor.mapImageSrc),
+  })));
+  return JSON.stringify({
+    format: PROJECT_FILE_FORMAT,
+    version: PROJECT_FILE_VERSION,
+    savedAt: new Date().toISOString(),
+    project: { ...project, floors },
+  });
+};
+
+export const parseProjectFile = (text: string): ProjectData => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new ProjectFileError('Файл проекта не является корректным JSON.');
+  }
+
+  const header = fileSchema.safeParse(raw);
+  if (!header.success) {
+    throw new ProjectFileError('Файл не является проектом планировщика маяков.');
+  }
+
+  return migrateProject(header.data.version, header.data.project);
+};
+
+// Brings a stored project payload of any known schema version up to date and validates it.
+export const migrateProject = (version: number, payload: unknown): ProjectData => {
+  if (version > PROJECT_FILE_VERSION) {
+    throw new ProjectFileError(
+      `Проект сохранен более новой версией приложения (версия схемы ${version}, поддерживается до ${PROJECT_FILE_VERSION}).`
+    );
+  }
+
+  let project = payload;
+  for (let v = version; v < PROJECT_FILE_VERSION; v++) {
+    const migrate = migrations[v];
+    if (!migrate) {
+      throw new ProjectFileError(`Версия схемы проекта ${version} больше не поддерживается.`);
+    }
+    // Migrations trust the shape of the version they upgrade; a malformed file fails here
+    try {
+      project = migrate(project);
+    } catch {
+      throw new ProjectFileError(
+        `Файл проекта поврежден: не удалось обновить его со схемы версии ${v} до версии ${v + 1}.`
+      );
+    }
+  }
+
+  const result = projectSchema.safeParse(project);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    throw new ProjectFileError(
+      `Файл проекта поврежден: ${issue.path.join('.') || 'project'} — ${issue.message}`
+    );
+  }
+  return result.data as ProjectData;
+};
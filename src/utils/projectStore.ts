@@ -0,0 +1,189 @@
+import {
+  DEFAULT_COORDINATE_SYSTEM,
+  DEFAULT_PLACEMENT_SETTINGS,
+  DEFAULT_PLAN_ORIENTATION,
+  Floor,
+} from '@/types/plan';
+import { migrateProject, PROJECT_FILE_VERSION, ProjectData } from '@/utils/projectFile';
+import { createFloor } from '@/utils/building';
+import { DEFAULT_INTER_FLOOR_SETTINGS } from '@/utils/interFloor';
+import { createImageUrl, isObjectUrl, loadImageBlob } from '@/utils/image';
+
+const DB_NAME = 'calc-manage-map';
+const DB_VERSION = 1;
+const PROJECTS_STORE = 'projects';
+
+interface ProjectRecord {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  version: number; // Schema version of `project`, see PROJECT_FILE_VERSION
+  project: unknown;
+}
+
+// Plan images opened in this session are object URLs. Records keep their Blobs instead, which
+// IndexedDB stores as they are, without the base64 overhead of a data URL.
+type RecordFloor = Floor & { mapImage?: Blob };
+
+export interface ProjectSummary {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  hasMap: boolean;
+  floorCount: number;
+  beaconCount: number;
+  antennaCount: number;
+}
+
+export interface StoredProject {
+  id: string;
+  name: string;
+  data: ProjectData;
+}
+
+export const createEmptyProject = (): ProjectData => ({
+  floors: [createFloor('Этаж 1')],
+  settings: DEFAULT_PLACEMENT_SETTINGS,
+  coordinateSystem: DEFAULT_COORDINATE_SYSTEM,
+  orientation: DEFAULT_PLAN_ORIENTATION,
+  interFloor: DEFAULT_INTER_FLOOR_SETTINGS,
+});
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(PROJECTS_STORE, { keyPath: 'id' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const runRequest = async <T>(
+  mode: IDBTransactionMode,
+  makeRequest: (store: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(PROJECTS_STORE, mode);
+    const request = makeRequest(transaction.objectStore(PROJECTS_STORE));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+const getRecord = async (id: string): Promise<ProjectRecord> => {
+  const record = await runRequest<ProjectRecord | undefined>('readonly', (store) => store.get(id));
+  if (!record) {
+    throw new Error(`Проект ${id} не найден.`);
+  }
+  return record;
+};
+
+const putRecord = (record: ProjectRecord) => runRequest('readwrite', (store) => store.put(record));
+
+const toRecordProject = async (data: ProjectData) => ({
+  ...data,
+  floors: await Promise.all(data.floors.map(async (floor): Promise<RecordFloor> => (
+    floor.mapImageSrc && isObjectUrl(floor.mapImageSrc)
+      ? { ...floor, mapImageSrc: null, mapImage: await loadImageBlob(floor.mapImageSrc) }
+      : floor
+  ))),
+});
+
+// Older records have no Blobs; records saved before floors existed are left for migration
+const fromRecordProject = (project: unknown): unknown => {
+  const floors = (project as { floors?: unknown } | null)?.floors;
+  if (!Array.isArray(floors)) return project;
+  return {
+    ...(project as object),
+    floors: floors.map((floor: Partial<RecordFloor>) => {
+      if (!(floor.mapImage instanceof Blob)) return floor;
+      const { mapImage, ...rest } = floor;
+      return { ...rest, mapImageSrc: createImageUrl(mapImage) };
+    }),
+  };
+};
+
+const generateProjectId = () => `project-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const listProjects = async (): Promise<ProjectSummary[]> => {
+  const records = await runRequest<ProjectRecord[]>('readonly', (store) => store.getAll());
+  return records
+    .map((record) => {
+      const project = record.project as { floors?: Partial<RecordFloor>[] } & Partial<Floor>;
+      // Records are migrated on open, so plans saved before floors existed read as a single floor
+      const floors: Partial<RecordFloor>[] = project.floors ?? [project];
+      const countOf = (key: 'beacons' | 'antennas') =>
+        floors.reduce((sum, floor) => sum + (floor[key]?.length ?? 0), 0);
+      return {
+        id: record.id,
+        name: record.name,
+        createdAt: record.createdAt,
+        updatedAt: record.updatedAt,
+        hasMap: floors.some((floor) => Boolean(floor.mapImageSrc || floor.mapImage || floor.vectorBasemap)),
+        floorCount: floors.length,
+        beaconCount: countOf('beacons'),
+        antennaCount: countOf('antennas'),
+      };
+    })
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const getProject = async (id: string): Promise<StoredProject> => {
+  const record = await getRecord(id);
+  return {
+    id: record.id,
+    name: record.name,
+    data: migrateProject(record.version, fromRecordProject(record.project)),
+  };
+};
+
+export const createProject = async (name: string, data: ProjectData = createEmptyProject()): Promise<string> => {
+  const now = Date.now();
+  const id = generateProjectId();
+  await putRecord({
+    id,
+    name,
+    createdAt: now,
+    updatedAt: now,
+    version: PROJECT_FILE_VERSION,
+    project: await toRecordProject(data),
+  });
+  return id;
+};
+
+export const saveProjectData = async (id: string, data: ProjectData) => {
+  const record = await getRecord(id);
+  const project = await toRecordProject(data);
+  await putRecord({ ...record, updatedAt: Date.now(), version: PROJECT_FILE_VERSION, project });
+};
+
+export const renameProject = async (id: string, name: string) => {
+  const record = await getRecord(id);
+  await putRecord({ ...record, name, updatedAt: Date.now() });
+};
+
+export const duplicateProject = async (id: string, name: string): Promise<string> => {
+  const record = await getRecord(id);
+  const now = Date.now();
+  const newId = generateProjectId();
+  await putRecord({ ...record, id: newId, name, createdAt: now, updatedAt: now });
+  return newId;
+};
+
+export const deleteProject = async (id: string) => {
+  await runRequest('readwrite', (store) => store.delete(id));
+};
@@ -0,0 +1,158 @@
+import { Coordinate } from 'ol/coordinate';
+import { Antenna, Barrier, Beacon, PropagationModel } from '@/types/plan';
+
+// Log-distance path loss: RSSI(d) = RSSI(1 m) − 10·n·log10(d), minus the attenuation of every
+// barrier edge crossed on the way. Kept free of DOM and OpenLayers imports (types aside), so that
+// workers computing coverage maps can bundle it too.
+
+export const RECEIVER_HEIGHT = 1.2; // meters above the floor, a phone in hand
+export const BEACON_MOUNT_HEIGHT = 2.5; // meters above the floor, beacons have no height of their own
+
+// Below 1 m the far-field model does not hold; the signal is taken as at 1 m
+const MIN_DISTANCE = 1;
+
+// Changing the transmit power shifts the signal at 1 m by the same number of dB.
+export const withTxPower = (model: PropagationModel, txPower: number): PropagationModel => ({
+  ...model,
+  txPower,
+  rssiAt1m: model.rssiAt1m + (txPower - model.txPower),
+});
+
+// Beacon.rssi is the beacon's own calibrated RSSI at 1 m (iBeacon "measured power"). Older plans
+// stored positive placeholders there, which are ignored in favour of the model.
+export const getBeaconRssiAt1m = (model: PropagationModel, rssi: number | undefined): number =>
+  rssi !== undefined && rssi < 0 ? rssi : model.rssiAt1m;
+
+export const getPathLoss = (model: PropagationModel, distance: number): number =>
+  10 * model.pathLossExponent * Math.log10(Math.max(distance, MIN_DISTANCE));
+
+export const getExpectedRssi = (model: PropagationModel, rssiAt1m: number, distance: number): number =>
+  rssiAt1m - getPathLoss(model, distance);
+
+// Straight-line distance at which the signal falls to the receiver sensitivity.
+export const getCoverageDistance = (model: PropagationModel, rssiAt1m: number): number =>
+  Math.max(MIN_DISTANCE, 10 ** ((rssiAt1m - model.sensitivity) / (10 * model.pathLossExponent)));
+
+// Radius of coverage at receiver height around a device mounted `mountHeight` above the floor.
+export const getCoverageRadius = (model: PropagationModel, rssiAt1m: number, mountHeight: number): number => {
+  const distance = getCoverageDistance(model, rssiAt1m);
+  const verticalDistance = mountHeight - RECEIVER_HEIGHT;
+  return Math.sqrt(Math.max(0, distance * distance - verticalDistance * verticalDistance));
+};
+
+export const getAntennaRange = (model: PropagationModel, height: number): number =>
+  getCoverageRadius(model, model.rssiAt1m, height);
+
+export const getBeaconRange = (model: PropagationModel, rssi: number | undefined): number =>
+  getCoverageRadius(model, getBeaconRssiAt1m(model, rssi), BEACON_MOUNT_HEIGHT);
+
+// Largest square grid spacing at which every point is within `radius` of a grid node.
+export const getGridStep = (radius: number): number => radius * Math.SQRT2;
+
+// A device as a signal source on its floor.
+export interface Transmitter {
+  position: Coordinate;
+  rssiAt1m: number; // dBm
+  mountHeight: number; // meters above the floor
+}
+
+export type Wall = Pick<Barrier, 'coordinates' | 'attenuation'>;
+
+export const beaconToTransmitter = (model: PropagationModel, beacon: Beacon): Transmitter => ({
+  position: beacon.position,
+  rssiAt1m: getBeaconRssiAt1m(model, beacon.rssi),
+  mountHeight: BEACON_MOUNT_HEIGHT,
+});
+
+export const antennaToTransmitter = (model: PropagationModel, antenna: Antenna): Transmitter => ({
+  position: antenna.position,
+  rssiAt1m: model.rssiAt1m,
+  mountHeight: antenna.height,
+});
+
+const COVERAGE_RAYS = 72;
+
+// Parameter t along a→b where it crosses segment c→d, or null if they do not cross.
+const crossSegment = (
+  [ax, ay]: Coordinate,
+  [bx, by]: Coordinate,
+  [cx, cy]: Coordinate,
+  [dx, dy]: Coordinate,
+): number | null => {
+  const rx = bx - ax;
+  const ry = by - ay;
+  const sx = dx - cx;
+  const sy = dy - cy;
+  const denominator = rx * sy - ry * sx;
+  if (denominator === 0) return null; // Parallel, grazing along a wall does not cross it
+  const t = ((cx - ax) * sy - (cy - ay) * sx) / denominator;
+  const u = ((cx - ax) * ry - (cy - ay) * rx) / denominator;
+  return t >= 0 && t <= 1 && u >= 0 && u <= 1 ? t : null;
+};
+
+// Where the way from `from` to `to` passes through each wall, as [t along the way, attenuation].
+// A wall is an outline, so its edges are crossed in entry/exit pairs; each pair is one wall
+// crossed and is charged once, at the entry (or at the exit when the way starts inside).
+const getWallCrossings = (walls: Wall[], from: Coordinate, to: Coordinate): [number, number][] => {
+  const crossings: [number, number][] = [];
+  walls.forEach((wall) => {
+    const edges: number[] = [];
+    wall.coordinates.forEach((ring) => {
+      for (let i = 0; i < ring.length - 1; i++) {
+        const t = crossSegment(from, to, ring[i], ring[i + 1]);
+        if (t !== null) edges.push(t);
+      }
+    });
+    edges
+      .sort((a, b) => a - b)
+      .forEach((t, index) => {
+        if (index % 2 === 0) crossings.push([t, wall.attenuation]);
+      });
+  });
+  return crossings;
+};
+
+export const getWallLoss = (walls: Wall[], from: Coordinate, to: Coordinate): number =>
+  getWallCrossings(walls, from, to).reduce((sum, [, attenuation]) => sum + attenuation, 0);
+
+// Expected RSSI at receiver height at `point`.
+export const getRssiAt = (
+  model: PropagationModel,
+  transmitter: Transmitter,
+  point: Coordinate,
+  walls: Wall[] = [],
+): number => {
+  const distance = Math.hypot(
+    point[0] - transmitter.position[0],
+    point[1] - transmitter.position[1],
+    transmitter.mountHeight - RECEIVER_HEIGHT,
+  );
+  return getExpectedRssi(model, transmitter.rssiAt1m, distance) - getWallLoss(walls, transmitter.position, point);
+};
+
+// Outline of the area where the signal stays above the sensitivity, found along rays from the
+// device; each wall crossed on a ray shortens the reach beyond it.
+export const getCoverageOutline = (
+  model: PropagationModel,
+  transmitter: Transmitter,
+  walls: Wall[],
+  rays = COVERAGE_RAYS,
+): Coordinate[] => {
+  const [x, y] = transmitter.position;
+  const freeRadius = getCoverageRadius(model, transmitter.rssiAt1m, transmitter.mountHeight);
+  const outline = Array.from({ length: rays }, (_, index): Coordinate => {
+    const angle = (2 * Math.PI * index) / rays;
+    const end: Coordinate = [x + freeRadius * Math.cos(angle), y + freeRadius * Math.sin(angle)];
+    const crossings = getWallCrossings(walls, transmitter.position, end).sort((a, b) => a[0] - b[0]);
+    let loss = 0;
+    let reach = freeRadius;
+    for (const [t, attenuation] of crossings) {
+      if (reach <= t * freeRadius) break;
+      loss += attenuation;
+      const radius = getCoverageRadius(model, transmitter.rssiAt1m - loss, transmitter.mountHeight);
+      reach = Math.max(t * freeRadius, radius);
+    }
+    return [x + reach * Math.cos(angle), y + reach * Math.sin(angle)];
+  });
+  return [...outline, outline[0]];
+};
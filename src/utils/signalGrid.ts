@@ -0,0 +1,129 @@
+import { Coordinate } from 'ol/coordinate';
+import { PropagationModel } from '@/types/plan';
+import { getRssiAt, getWallLoss, Transmitter, Wall } from '@/utils/propagation';
+
+// Predicted signal over square cells across the plan, and the messages of the worker computing it.
+// Kept free of DOM and OpenLayers imports (types aside), since the worker bundles this module too.
+
+// Larger plans get coarser cells, so that a grid stays within a few seconds of work
+export const MAX_SIGNAL_GRID_CELLS = 250000;
+
+export interface SignalGridRequest {
+  width: number; // meters
+  height: number; // meters
+  cellSize: number; // meters, the requested one
+  model: PropagationModel;
+  transmitters: Transmitter[];
+  // Ids of the devices behind the transmitters, in the same order. Returned with the grid, so that a
+  // result arriving after the devices changed can be told apart.
+  transmitterIds?: string[];
+  walls: Wall[]; // Attenuate the signal; cells inside them are left out
+  countThreshold?: number; // dBm; devices heard at or above it are counted per cell
+}
+
+export interface SignalGrid {
+  width: number; // meters of the plan; the last column and row of cells may reach past it
+  height: number; // meters
+  columns: number;
+  rows: number;
+  cellSize: number; // meters, the one used
+  // Strongest RSSI per cell in dBm, row by row from the bottom-left corner of the plan.
+  // -Infinity where no device is given, NaN inside barriers.
+  rssi: Float32Array;
+  strongest: Int32Array; // Index of the strongest device in the request, -1 without any or inside barriers
+  heard: Uint8Array; // Devices per cell at or above the count threshold, up to 255; zeros without one
+  transmitterIds: string[]; // As in the request, empty without them
+}
+
+export type SignalGridWorkerMessage =
+  | { type: 'progress'; done: number; total: number }
+  | { type: 'done'; grid: SignalGrid }
+  | { type: 'error'; message: string };
+
+export class SignalGridError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SignalGridError';
+  }
+}
+
+export const getSignalGridCellSize = (width: number, height: number, cellSize: number): number =>
+  Math.max(cellSize, Math.sqrt((width * height) / MAX_SIGNAL_GRID_CELLS));
+
+export const getCellCenter = (grid: Pick<SignalGrid, 'columns' | 'cellSize'>, index: number): Coordinate => [
+  ((index % grid.columns) + 0.5) * grid.cellSize,
+  (Math.floor(index / grid.columns) + 0.5) * grid.cellSize,
+];
+
+// Part of the cell inside the plan, in square meters.
+export const getCellArea = (grid: Pick<SignalGrid, 'width' | 'height' | 'columns' | 'cellSize'>, index: number) => {
+  const { width, height, columns, cellSize } = grid;
+  const x = (index % columns) * cellSize;
+  const y = Math.floor(index / columns) * cellSize;
+  return Math.max(0, Math.min(cellSize, width - x)) * Math.max(0, Math.min(cellSize, height - y));
+};
+
+// Even-odd rule over all rings, so holes in a barrier stay open.
+const isInsideWall = (wall: Wall, [x, y]: Coordinate): boolean => {
+  let inside = false;
+  wall.coordinates.forEach((ring) => {
+    for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+      const [xi, yi] = ring[i];
+      const [xj, yj] = ring[j];
+      if ((yi > y) !== (yj > y) && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) inside = !inside;
+    }
+  });
+  return inside;
+};
+
+export const computeSignalGrid = (
+  request: SignalGridRequest,
+  onRow?: (done: number, total: number) => void,
+): SignalGrid => {
+  const { model, transmitters, walls, countThreshold = Infinity } = request;
+  const cellSize = getSignalGridCellSize(request.width, request.height, request.cellSize);
+  const columns = Math.max(1, Math.ceil(request.width / cellSize));
+  const rows = Math.max(1, Math.ceil(request.height / cellSize));
+  const grid: SignalGrid = {
+    width: request.width,
+    height: request.height,
+    columns,
+    rows,
+    cellSize,
+    rssi: new Float32Array(columns * rows),
+    strongest: new Int32Array(columns * rows).fill(-1),
+    heard: new Uint8Array(columns * rows),
+    transmitterIds: request.transmitterIds ?? [],
+  };
+
+  for (let row = 0; row < rows; row++) {
+    for (let column = 0; column < columns; column++) {
+      const index = row * columns + column;
+      const center = getCellCenter(grid, index);
+      if (walls.some((wall) => isInsideWall(wall, center))) {
+        grid.rssi[index] = NaN;
+        continue;
+      }
+      let best = -Infinity;
+      let strongest = -1;
+      let heard = 0;
+      transmitters.forEach((transmitter, transmitterIndex) => {
+        // Walls only take signal away, so they are traced just for devices that could beat the best
+        // or be counted
+        const freeRssi = getRssiAt(model, transmitter, center);
+        if (freeRssi <= best && freeRssi < countThreshold) return;
+        const rssi = freeRssi - getWallLoss(walls, transmitter.position, center);
+        if (rssi > best) {
+          best = rssi;
+          strongest = transmitterIndex;
+        }
+        if (rssi >= countThreshold) heard++;
+      });
+      grid.rssi[index] = best;
+      grid.strongest[index] = strongest;
+      grid.heard[index] = Math.min(heard, 255);
+    }
+    onRow?.(row + 1, rows);
+  }
+  return grid;
+};
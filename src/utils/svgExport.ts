@@ -0,0 +1,99 @@
+import { Coordinate } from 'ol/coordinate';
+import { Antenna, Barrier, Beacon, PropagationModel, VectorBasemap } from '@/types/plan';
+import { BARRIER_MATERIAL_COLORS } from '@/utils/barrierMaterials';
+import { antennaToTransmitter, getCoverageOutline } from '@/utils/propagation';
+
+// The plan as an editable SVG document. Every map layer becomes a top-level group with a stable id,
+// marked as an Inkscape layer; Illustrator takes layer names from the ids.
+
+export interface SvgExportPlan {
+  mapImageSrc: string | null;
+  vectorBasemap: VectorBasemap | null;
+  mapWidth: number; // meters
+  mapHeight: number; // meters
+  beacons: Beacon[];
+  antennas: Antenna[];
+  barriers: Barrier[];
+  propagation: PropagationModel; // Coverage is drawn bounded by the barriers, as on the map
+}
+
+export interface SvgExportLayers {
+  beacons: boolean;
+  antennas: boolean;
+  barriers: boolean;
+}
+
+// One SVG user unit is one centimeter, so the numbers stay readable in editors
+const UNITS_PER_METER = 100;
+
+const escapeXml = (value: string) =>
+  value.replace(/[<>&"']/g, (char) => `&#${char.charCodeAt(0)};`);
+
+const formatNumber = (value: number) => String(Math.round(value * 100) / 100);
+
+const layerGroup = (id: string, label: string, children: string[]) => [
+  `  <g id="${id}" inkscape:groupmode="layer" inkscape:label="${escapeXml(label)}">`,
+  ...children.map((child) => `    ${child}`),
+  '  </g>',
+].join('\n');
+
+export const planToSvg = (plan: SvgExportPlan, layers: SvgExportLayers): string => {
+  const width = plan.mapWidth * UNITS_PER_METER;
+  const height = plan.mapHeight * UNITS_PER_METER;
+  // Map y points up, SVG y points down
+  const toSvg = ([x, y]: Coordinate) => [x * UNITS_PER_METER, (plan.mapHeight - y) * UNITS_PER_METER];
+  const pointList = (coordinates: Coordinate[]) =>
+    coordinates.map((coordinate) => toSvg(coordinate).map(formatNumber).join(',')).join(' ');
+  const markerRadius = Math.max(width, height) / 200;
+
+  const planChildren = plan.mapImageSrc
+    ? [
+      `<image id="plan-image" x="0" y="0" width="${formatNumber(width)}" height="${formatNumber(height)}" preserveAspectRatio="none" href="${escapeXml(plan.mapImageSrc)}" xlink:href="${escapeXml(plan.mapImageSrc)}" />`,
+    ]
+    : (plan.vectorBasemap?.paths ?? []).map((path) => {
+      const tag = path.closed ? 'polygon' : 'polyline';
+      return `<${tag} points="${pointList(path.coordinates)}" fill="none" stroke="${escapeXml(path.color ?? '#333333')}" stroke-width="${formatNumber(markerRadius / 8)}" data-layer="${escapeXml(path.layer)}" />`;
+    });
+
+  const barrierChildren = plan.barriers.map((barrier) => {
+    const d = barrier.coordinates
+      .map((ring) => `M ${pointList(ring)} Z`)
+      .join(' ');
+    const color = BARRIER_MATERIAL_COLORS[barrier.material];
+    return `<path id="${escapeXml(barrier.id)}" data-material="${barrier.material}" d="${d}" fill="${color}" fill-opacity="0.3" stroke="${color}" stroke-width="${formatNumber(markerRadius / 3)}" fill-rule="evenodd" />`;
+  });
+
+  const coverageChildren = plan.antennas.map((antenna) => {
+    const outline = getCoverageOutline(plan.propagation, antennaToTransmitter(plan.propagation, antenna), plan.barriers);
+    return `<polygon id="coverage-${escapeXml(antenna.id)}" points="${pointList(outline)}" fill="blue" fill-opacity="0.1" stroke="blue" stroke-width="${formatNumber(markerRadius / 6)}" />`;
+  });
+
+  const marker = (id: string, position: Coordinate, color: string, title: string) => {
+    const [cx, cy] = toSvg(position);
+    return `<circle id="${escapeXml(id)}" cx="${formatNumber(cx)}" cy="${formatNumber(cy)}" r="${formatNumber(markerRadius)}" fill="${color}" stroke="white" stroke-width="${formatNumber(markerRadius / 4)}"><title>${escapeXml(title)}</title></circle>`;
+  };
+  const antennaChildren = plan.antennas.map((antenna) =>
+    marker(antenna.id, antenna.position, 'blue', `${antenna.id}: высота ${antenna.height} м, угол ${antenna.angle}°`)
+  );
+  const beaconChildren = plan.beacons.map((beacon) =>
+    marker(beacon.id, beacon.position, 'red', beacon.rssi !== undefined ? `${beacon.id}: ${beacon.rssi} dBm` : beacon.id)
+  );
+
+  const groups = [
+    layerGroup('plan', 'План', planChildren),
+    layers.barriers && layerGroup('barriers', 'Барьеры', barrierChildren),
+    layers.antennas && layerGroup('coverage', 'Зоны покрытия', coverageChildren),
+    layers.antennas && layerGroup('antennas', 'Антенны', antennaChildren),
+    layers.beacons && layerGroup('beacons', 'Маяки', beaconChildren),
+  ].filter(Boolean);
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    // Printed size at 1:100, one meter of the plan is one centimeter of paper
+    `<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink" xmlns:inkscape="http://www.inkscape.org/namespaces/inkscape"`
+      + ` width="${formatNumber(plan.mapWidth * 10)}mm" height="${formatNumber(plan.mapHeight * 10)}mm" viewBox="0 0 ${formatNumber(width)} ${formatNumber(height)}">`,
+    ...groups,
+    '</svg>',
+    '',
+  ].join('\n');
+};
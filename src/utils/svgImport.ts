@@ -0,0 +1,226 @@
+import { Coordinate } from 'ol/coordinate';
+import { VectorBasemap, VectorPath } from '@/types/plan';
+
+export class SvgImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SvgImportError';
+  }
+}
+
+export interface SvgShape {
+  ids: string[]; // Own id and ids of all ancestor groups
+  classes: string[]; // Own classes and classes of all ancestor groups
+  stroke: string | null; // Computed stroke color, null when the shape is not stroked
+  path: VectorPath; // In SVG user units of the root viewBox, y pointing down
+}
+
+export interface SvgDrawing {
+  viewBox: [number, number, number, number]; // minX, minY, width, height
+  shapes: SvgShape[];
+  ids: string[];
+  classes: string[];
+  strokes: string[];
+}
+
+export interface SvgSelection {
+  ids: string[];
+  classes: string[];
+  strokes: string[];
+}
+
+const SHAPE_SELECTOR = 'path, line, polyline, polygon, rect, circle, ellipse';
+const MAX_CURVE_SAMPLES = 256;
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+
+// The uploaded file is untrusted, so only its geometry and the styling that decides stroke colours
+// are carried into the page. Scripts, event handlers, links, foreignObject, <use>, <image> and
+// everything inside defs are left behind, as are external references from CSS.
+const SAFE_ELEMENTS = new Set(['svg', 'g', 'style', 'path', 'line', 'polyline', 'polygon', 'rect', 'circle', 'ellipse']);
+const SAFE_ATTRIBUTES = new Set([
+  'id', 'class', 'style', 'transform', 'viewBox', 'preserveAspectRatio', 'inkscape:label',
+  'x', 'y', 'width', 'height', 'x1', 'y1', 'x2', 'y2', 'cx', 'cy', 'r', 'rx', 'ry', 'd', 'points',
+  'fill', 'stroke', 'stroke-width', 'display', 'visibility', 'opacity',
+]);
+
+const stripExternalCss = (css: string) => css.replace(/@import[^;]*;?/gi, '').replace(/url\s*\([^)]*\)/gi, 'none');
+
+const copySafeSvg = (source: Element): Element | null => {
+  if (source.namespaceURI !== SVG_NS || !SAFE_ELEMENTS.has(source.localName)) return null;
+  const copy = document.createElementNS(SVG_NS, source.localName);
+  Array.from(source.attributes).forEach((attribute) => {
+    if (SAFE_ATTRIBUTES.has(attribute.name)) {
+      copy.setAttributeNS(attribute.namespaceURI, attribute.name, stripExternalCss(attribute.value));
+    }
+  });
+  if (source.localName === 'style') {
+    copy.textContent = stripExternalCss(source.textContent ?? '');
+    return copy;
+  }
+  Array.from(source.children).forEach((child) => {
+    const childCopy = copySafeSvg(child);
+    if (childCopy) copy.appendChild(childCopy);
+  });
+  return copy;
+};
+
+const parseViewBox = (svg: SVGSVGElement): [number, number, number, number] | null => {
+  const viewBox = svg.viewBox?.baseVal;
+  if (viewBox && viewBox.width > 0 && viewBox.height > 0) {
+    return [viewBox.x, viewBox.y, viewBox.width, viewBox.height];
+  }
+  const width = svg.width?.baseVal?.value;
+  const height = svg.height?.baseVal?.value;
+  return width > 0 && height > 0 ? [0, 0, width, height] : null;
+};
+
+// Vertices of a shape in its own user space. Straight-edged shapes keep their exact vertices,
+// curves are sampled along their length.
+const shapeVertices = (element: SVGGeometryElement): { points: Coordinate[]; closed: boolean } => {
+  if (element instanceof SVGLineElement) {
+    return {
+      points: [
+        [element.x1.baseVal.value, element.y1.baseVal.value],
+        [element.x2.baseVal.value, element.y2.baseVal.value],
+      ],
+      closed: false,
+    };
+  }
+  if (element instanceof SVGPolylineElement || element instanceof SVGPolygonElement) {
+    return {
+      points: Array.from(element.points).map((point) => [point.x, point.y]),
+      closed: element instanceof SVGPolygonElement,
+    };
+  }
+  if (element instanceof SVGRectElement) {
+    const x = element.x.baseVal.value;
+    const y = element.y.baseVal.value;
+    const width = element.width.baseVal.value;
+    const height = element.height.baseVal.value;
+    return { points: [[x, y], [x + width, y], [x + width, y + height], [x, y + height]], closed: true };
+  }
+
+  const length = element.getTotalLength();
+  const samples = Math.min(MAX_CURVE_SAMPLES, Math.max(2, Math.ceil(length)));
+  const points: Coordinate[] = [];
+  for (let i = 0; i <= samples; i++) {
+    const point = element.getPointAtLength((length * i) / samples);
+    points.push([point.x, point.y]);
+  }
+  const isClosed = element instanceof SVGCircleElement
+    || element instanceof SVGEllipseElement
+    || /z\s*$/i.test(element.getAttribute('d') ?? '');
+  return { points: isClosed ? points.slice(0, -1) : points, closed: isClosed };
+};
+
+const collectAncestorValues = (element: Element, root: Element, read: (el: Element) => string[]) => {
+  const values: string[] = [];
+  for (let current: Element | null = element; current && current !== root; current = current.parentElement) {
+    values.push(...read(current));
+  }
+  return values;
+};
+
+// Top-level groups act as layers, as in Illustrator and Inkscape exports
+const getLayerName = (element: Element, root: Element): string => {
+  let current: Element | null = element;
+  while (current && current.parentElement !== root) {
+    current = current.parentElement;
+  }
+  if (!current || current.tagName !== 'g') return 'svg';
+  return current.getAttribute('inkscape:label') || current.id || 'svg';
+};
+
+// Paths are sampled with the browser's SVG geometry API, so a sanitized copy of the document is mounted
+// off-screen while parsing.
+export const parseSvg = (text: string): SvgDrawing => {
+  const doc = new DOMParser().parseFromString(text, 'image/svg+xml');
+  const parsedRoot = doc.documentElement;
+  const svg = doc.querySelector('parsererror') ? null : copySafeSvg(parsedRoot) as SVGSVGElement | null;
+  if (!svg || svg.localName !== 'svg') {
+    throw new SvgImportError('Файл не является корректным SVG-документом.');
+  }
+
+  const container = document.createElement('div');
+  container.style.cssText = 'position:absolute;left:-100000px;top:0;width:1000px;height:1000px;opacity:0;pointer-events:none;';
+  container.appendChild(svg);
+  document.body.appendChild(container);
+
+  try {
+    const viewBox = parseViewBox(svg);
+    if (!viewBox) {
+      throw new SvgImportError('В SVG не заданы viewBox или размеры документа.');
+    }
+
+    const rootMatrix = svg.getScreenCTM()?.inverse();
+    const shapes: SvgShape[] = [];
+    svg.querySelectorAll<SVGGeometryElement>(SHAPE_SELECTOR).forEach((element) => {
+      const style = getComputedStyle(element);
+      if (style.display === 'none' || style.visibility === 'hidden') return;
+
+      const { points, closed } = shapeVertices(element);
+      if (points.length < 2) return;
+
+      // Map the shape's user space to the root viewBox through all nested transforms
+      const matrix = rootMatrix && element.getScreenCTM() ? rootMatrix.multiply(element.getScreenCTM()!) : null;
+      const coordinates = points.map(([x, y]): Coordinate => {
+        if (!matrix) return [x, y];
+        return [matrix.a * x + matrix.c * y + matrix.e, matrix.b * x + matrix.d * y + matrix.f];
+      });
+
+      const stroke = style.stroke && style.stroke !== 'none' ? style.stroke : null;
+      shapes.push({
+        ids: collectAncestorValues(element, svg, (el) => (el.id ? [el.id] : [])),
+        classes: collectAncestorValues(element, svg, (el) => Array.from(el.classList)),
+        stroke,
+        path: {
+          layer: getLayerName(element, svg),
+          coordinates,
+          closed,
+          color: stroke ?? (style.fill && style.fill !== 'none' ? style.fill : undefined),
+        },
+      });
+    });
+
+    if (shapes.length === 0) {
+      throw new SvgImportError('В SVG нет контуров (path, line, polyline, polygon, rect, circle, ellipse).');
+    }
+
+    const unique = (values: string[]) => [...new Set(values)].sort();
+    return {
+      viewBox,
+      shapes,
+      ids: unique(shapes.flatMap((shape) => shape.ids)),
+      classes: unique(shapes.flatMap((shape) => shape.classes)),
+      strokes: unique(shapes.flatMap((shape) => (shape.stroke ? [shape.stroke] : []))),
+    };
+  } finally {
+    container.remove();
+  }
+};
+
+export const isShapeSelected = (shape: SvgShape, selection: SvgSelection): boolean => {
+  return shape.ids.some((id) => selection.ids.includes(id))
+    || shape.classes.some((cls) => selection.classes.includes(cls))
+    || (shape.stroke !== null && selection.strokes.includes(shape.stroke));
+};
+
+// Scales the viewBox to [0, 0, width, height] in meters and flips y so that it points up as on the map.
+export const svgToMeters = (drawing: SvgDrawing, metersPerUnit: number) => {
+  const [minX, minY, width, height] = drawing.viewBox;
+  const toMeters = ([x, y]: Coordinate): Coordinate => [
+    (x - minX) * metersPerUnit,
+    (height - (y - minY)) * metersPerUnit,
+  ];
+  const shapes = drawing.shapes.map((shape) => ({
+    ...shape,
+    path: { ...shape.path, coordinates: shape.path.coordinates.map(toMeters) },
+  }));
+  const basemap: VectorBasemap = {
+    source: 'svg',
+    layers: [...new Set(shapes.map((shape) => shape.path.layer))].sort(),
+    paths: shapes.map((shape) => shape.path),
+  };
+  return { basemap, shapes, width: width * metersPerUnit, height: height * metersPerUnit };
+};
@@ -0,0 +1,49 @@
+// Tile pyramid geometry and the messages of the slicing worker. Kept free of DOM and OpenLayers
+// imports, since the worker bundles this module too.
+
+export const TILE_SIZE = 256;
+// Images with a longer side are shown from a tile pyramid instead of a single static image
+export const TILED_IMAGE_MIN_SIZE = 4096;
+
+export interface TileLevel {
+  z: number;
+  width: number; // pixels at this level
+  height: number; // pixels at this level
+  columns: number;
+  rows: number;
+}
+
+// The size is always posted first; images too small to tile, or any image with `sizeOnly`, end there
+export type TileWorkerRequest = { image: Blob; sizeOnly?: boolean };
+
+export type TileWorkerMessage =
+  | { type: 'size'; width: number; height: number }
+  | { type: 'tiles'; tiles: { z: number; x: number; y: number; blob: Blob }[]; done: number; total: number }
+  | { type: 'done' }
+  | { type: 'error'; message: string };
+
+export class TilePyramidError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TilePyramidError';
+  }
+}
+
+export const isTiledImageSize = (width: number, height: number) => Math.max(width, height) > TILED_IMAGE_MIN_SIZE;
+
+// Zoom levels from a single tile (z = 0) up to full resolution, halving the image at each step.
+export const getTileLevels = (width: number, height: number, tileSize = TILE_SIZE): TileLevel[] => {
+  const maxZoom = Math.max(0, Math.ceil(Math.log2(Math.max(width, height) / tileSize)));
+  return Array.from({ length: maxZoom + 1 }, (_, z) => {
+    const scale = 2 ** (z - maxZoom);
+    const levelWidth = Math.max(1, Math.ceil(width * scale));
+    const levelHeight = Math.max(1, Math.ceil(height * scale));
+    return {
+      z,
+      width: levelWidth,
+      height: levelHeight,
+      columns: Math.ceil(levelWidth / tileSize),
+      rows: Math.ceil(levelHeight / tileSize),
+    };
+  });
+};
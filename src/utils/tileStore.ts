@@ -0,0 +1,164 @@
+// Storage for tile pyramids of large plan images. Tiles are cached in a separate IndexedDB database
+// keyed by the image's content hash, so reopening a project does not slice the image again.
+// Pyramids can always be sliced again from the plan image, so the least recently used ones are
+// evicted once the cache outgrows MAX_TILE_CACHE_BYTES.
+
+export interface TilePyramid {
+  id: string; // SHA-256 of the source image
+  width: number; // source image pixels
+  height: number; // source image pixels
+  tileSize: number; // pixels
+  maxZoom: number; // level with one tile pixel per image pixel
+  bytes: number; // total size of the tiles
+  usedAt: number; // ms since epoch, when last stored or read
+}
+
+export interface StoredTile {
+  z: number;
+  x: number;
+  y: number;
+  blob: Blob;
+}
+
+export interface TileStore {
+  getPyramid: (id: string) => Promise<TilePyramid | undefined>; // Marks the pyramid as used
+  // Written after all of its tiles, so a stored pyramid is always complete. Evicts least recently
+  // used pyramids other than this one while the cache is over its size.
+  putPyramid: (pyramid: TilePyramid) => Promise<void>;
+  putTiles: (pyramidId: string, tiles: StoredTile[]) => Promise<void>;
+  getTile: (pyramidId: string, z: number, x: number, y: number) => Promise<Blob | undefined>;
+  deletePyramid: (id: string) => Promise<void>;
+}
+
+export const MAX_TILE_CACHE_BYTES = 1024 * 1024 * 1024;
+
+const DB_NAME = 'calc-manage-map-tiles';
+const DB_VERSION = 2;
+const PYRAMIDS_STORE = 'pyramids';
+const TILES_STORE = 'tiles';
+
+const tileKey = (pyramidId: string, z: number, x: number, y: number) => `${pyramidId}/${z}/${x}/${y}`;
+const tileKeyPrefix = (pyramidId: string) => `${pyramidId}/`;
+
+// Ids of the pyramids to drop, least recently used first, so that the rest fits into the cache
+const getEvictedPyramidIds = (pyramids: TilePyramid[], keepId: string): string[] => {
+  let bytes = pyramids.reduce((sum, pyramid) => sum + pyramid.bytes, 0);
+  return [...pyramids]
+    .sort((a, b) => a.usedAt - b.usedAt)
+    .filter((pyramid) => {
+      if (bytes <= MAX_TILE_CACHE_BYTES || pyramid.id === keepId) return false;
+      bytes -= pyramid.bytes;
+      return true;
+    })
+    .map((pyramid) => pyramid.id);
+};
+
+export const createMemoryTileStore = (): TileStore => {
+  const pyramids = new Map<string, TilePyramid>();
+  const tiles = new Map<string, Blob>();
+  const deletePyramid = async (id: string) => {
+    pyramids.delete(id);
+    [...tiles.keys()].filter((key) => key.startsWith(tileKeyPrefix(id))).forEach((key) => tiles.delete(key));
+  };
+  return {
+    getPyramid: async (id) => {
+      const pyramid = pyramids.get(id);
+      if (pyramid) pyramids.set(id, { ...pyramid, usedAt: Date.now() });
+      return pyramid;
+    },
+    putPyramid: async (pyramid) => {
+      pyramids.set(pyramid.id, pyramid);
+      await Promise.all(getEvictedPyramidIds([...pyramids.values()], pyramid.id).map(deletePyramid));
+    },
+    putTiles: async (pyramidId, storedTiles) => {
+      storedTiles.forEach(({ z, x, y, blob }) => tiles.set(tileKey(pyramidId, z, x, y), blob));
+    },
+    getTile: async (pyramidId, z, x, y) => tiles.get(tileKey(pyramidId, z, x, y)),
+    deletePyramid,
+  };
+};
+
+export const createIndexedDbTileStore = (): TileStore => {
+  let dbPromise: Promise<IDBDatabase> | null = null;
+
+  const openDatabase = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+      dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = (event) => {
+          const db = request.result;
+          // Pyramids of version 1 have no size or use time to evict them by; being a cache, they are dropped
+          if (event.oldVersion === 1) {
+            db.deleteObjectStore(PYRAMIDS_STORE);
+            db.deleteObjectStore(TILES_STORE);
+          }
+          db.createObjectStore(PYRAMIDS_STORE, { keyPath: 'id' });
+          db.createObjectStore(TILES_STORE);
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          dbPromise = null;
+          reject(request.error);
+        };
+      });
+    }
+    return dbPromise;
+  };
+
+  const runTransaction = async <T>(
+    storeName: string,
+    mode: IDBTransactionMode,
+    run: (store: IDBObjectStore) => IDBRequest<T> | void,
+  ): Promise<T | undefined> => {
+    const db = await openDatabase();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(storeName, mode);
+      const request = run(transaction.objectStore(storeName));
+      transaction.oncomplete = () => resolve(request ? request.result : undefined);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  };
+
+  // The pyramid goes first, so that a stored pyramid never refers to deleted tiles
+  const deletePyramid = async (id: string) => {
+    await runTransaction(PYRAMIDS_STORE, 'readwrite', (store) => store.delete(id));
+    await runTransaction(TILES_STORE, 'readwrite', (store) =>
+      store.delete(IDBKeyRange.bound(tileKeyPrefix(id), `${tileKeyPrefix(id)}\uffff`)));
+  };
+
+  return {
+    getPyramid: async (id) => {
+      const pyramid = await runTransaction<TilePyramid | undefined>(PYRAMIDS_STORE, 'readonly', (store) => store.get(id));
+      if (pyramid) {
+        await runTransaction(PYRAMIDS_STORE, 'readwrite', (store) => store.put({ ...pyramid, usedAt: Date.now() }));
+      }
+      return pyramid;
+    },
+    putPyramid: async (pyramid) => {
+      await runTransaction(PYRAMIDS_STORE, 'readwrite', (store) => store.put(pyramid));
+      const pyramids = await runTransaction<TilePyramid[]>(PYRAMIDS_STORE, 'readonly', (store) => store.getAll());
+      for (const id of getEvictedPyramidIds(pyramids ?? [], pyramid.id)) {
+        await deletePyramid(id);
+      }
+    },
+    putTiles: async (pyramidId, storedTiles) => {
+      await runTransaction(TILES_STORE, 'readwrite', (store) => {
+        storedTiles.forEach(({ z, x, y, blob }) => store.put(blob, tileKey(pyramidId, z, x, y)));
+      });
+    },
+    getTile: (pyramidId, z, x, y) =>
+      runTransaction<Blob | undefined>(TILES_STORE, 'readonly', (store) => store.get(tileKey(pyramidId, z, x, y))),
+    deletePyramid,
+  };
+};
+
+let defaultStore: TileStore | null = null;
+
+// IndexedDB where the browser provides it, otherwise memory for the current session.
+export const getTileStore = (): TileStore => {
+  if (!defaultStore) {
+    defaultStore = typeof indexedDB !== 'undefined' ? createIndexedDbTileStore() : createMemoryTileStore();
+  }
+  return defaultStore;
+};
@@ -0,0 +1,164 @@
+import TileLayer from 'ol/layer/Tile';
+import TileImage from 'ol/source/TileImage';
+import TileGrid from 'ol/tilegrid/TileGrid';
+import ImageTile from 'ol/ImageTile';
+import TileState from 'ol/TileState';
+import { Extent } from 'ol/extent';
+import { addCoordinateTransforms, Projection } from 'ol/proj';
+import { ImageSize } from '@/utils/image';
+import { TilePyramid, TileStore } from '@/utils/tileStore';
+import {
+  getTileLevels,
+  isTiledImageSize,
+  TILE_SIZE,
+  TilePyramidError,
+  TileWorkerMessage,
+  TileWorkerRequest,
+} from '@/utils/tilePyramid';
+
+const hashBlob = async (blob: Blob) => {
+  const digest = await crypto.subtle.digest('SHA-256', await blob.arrayBuffer());
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+};
+
+// Reads the pixel size of an image in the worker, so that a large plan is never decoded on the main thread.
+export const readImageSize = (image: Blob): Promise<ImageSize> => new Promise((resolve, reject) => {
+  const worker = new Worker(new URL('../workers/tilePyramid.worker.ts', import.meta.url), { type: 'module' });
+  worker.onmessage = (event: MessageEvent<TileWorkerMessage>) => {
+    const message = event.data;
+    if (message.type === 'size') {
+      worker.terminate();
+      resolve({ width: message.width, height: message.height });
+    } else if (message.type === 'error') {
+      worker.terminate();
+      reject(new TilePyramidError(message.message));
+    }
+  };
+  worker.onerror = (event) => {
+    worker.terminate();
+    reject(new TilePyramidError(event.message || 'Не удалось прочитать изображение.'));
+  };
+  worker.postMessage({ image, sizeOnly: true } satisfies TileWorkerRequest);
+});
+
+// Slices a large image into tiles in a worker and saves them to the store. Pyramids already in the
+// store are reused. Resolves to null for an image small enough to be shown whole, as the worker finds
+// from its size. Aborting terminates the worker; tiles written so far stay unreferenced.
+export const prepareTilePyramid = async (
+  image: Blob,
+  store: TileStore,
+  onProgress: (fraction: number) => void,
+  signal?: AbortSignal,
+): Promise<TilePyramid | null> => {
+  const id = await hashBlob(image);
+  const existing = await store.getPyramid(id);
+  if (existing) return existing;
+  signal?.throwIfAborted();
+
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('../workers/tilePyramid.worker.ts', import.meta.url), { type: 'module' });
+    let size: { width: number; height: number } | null = null;
+    let bytes = 0;
+    let writes = Promise.resolve();
+
+    const fail = (error: unknown) => {
+      worker.terminate();
+      reject(error);
+    };
+    signal?.addEventListener('abort', () => fail(signal.reason), { once: true });
+
+    worker.onmessage = (event: MessageEvent<TileWorkerMessage>) => {
+      const message = event.data;
+      switch (message.type) {
+        case 'size':
+          size = { width: message.width, height: message.height };
+          break;
+        case 'tiles':
+          bytes += message.tiles.reduce((sum, tile) => sum + tile.blob.size, 0);
+          writes = writes.then(() => store.putTiles(id, message.tiles));
+          onProgress(message.done / message.total);
+          break;
+        case 'done': {
+          worker.terminate();
+          if (!isTiledImageSize(size!.width, size!.height)) {
+            resolve(null);
+            break;
+          }
+          const levels = getTileLevels(size!.width, size!.height);
+          const pyramid: TilePyramid = {
+            id,
+            ...size!,
+            tileSize: TILE_SIZE,
+            maxZoom: levels.length - 1,
+            bytes,
+            usedAt: Date.now(),
+          };
+          writes.then(() => store.putPyramid(pyramid)).then(() => resolve(pyramid), reject);
+          break;
+        }
+        case 'error':
+          fail(new TilePyramidError(message.message));
+          break;
+      }
+    };
+    worker.onerror = (event) => fail(new TilePyramidError(event.message || 'Ошибка при нарезке изображения.'));
+    worker.postMessage({ image } satisfies TileWorkerRequest);
+  });
+};
+
+// Tile layer of a stored pyramid stretched over `extent`, as ImageStatic stretches a whole image.
+// The tile grid is laid out in image pixels, with square tiles and a power of two resolution per
+// level; a linear transform maps those pixels onto the plan, so distorted plans scale X and Y apart.
+export const createTiledBasemapLayer = (
+  pyramid: TilePyramid,
+  store: TileStore,
+  extent: Extent,
+  projection: Projection,
+) => {
+  const [minX, minY, maxX, maxY] = extent;
+  const metersPerPixelX = (maxX - minX) / pyramid.width;
+  const metersPerPixelY = (maxY - minY) / pyramid.height;
+  const pixelExtent = [0, 0, pyramid.width, pyramid.height];
+  const pixelProjection = new Projection({
+    code: `PLAN-TILES:${pyramid.id}:${extent.join(',')}`,
+    units: 'pixels',
+    extent: pixelExtent,
+    metersPerUnit: Math.sqrt(metersPerPixelX * metersPerPixelY),
+  });
+  addCoordinateTransforms(
+    pixelProjection,
+    projection,
+    ([x, y]) => [minX + x * metersPerPixelX, minY + y * metersPerPixelY],
+    ([x, y]) => [(x - minX) / metersPerPixelX, (y - minY) / metersPerPixelY],
+  );
+
+  const tileGrid = new TileGrid({
+    extent: pixelExtent,
+    origin: [0, pyramid.height],
+    resolutions: Array.from({ length: pyramid.maxZoom + 1 }, (_, z) => 2 ** (pyramid.maxZoom - z)),
+    tileSize: pyramid.tileSize,
+  });
+
+  const source = new TileImage({
+    projection: pixelProjection,
+    tileGrid,
+    wrapX: false,
+    tileUrlFunction: ([z, x, y]) => `${z}/${x}/${y}`,
+    tileLoadFunction: (tile, key) => {
+      const [z, x, y] = key.split('/').map(Number);
+      store.getTile(pyramid.id, z, x, y).then((blob) => {
+        if (!blob) {
+          tile.setState(TileState.ERROR);
+          return;
+        }
+        const image = (tile as ImageTile).getImage() as HTMLImageElement;
+        const url = URL.createObjectURL(blob);
+        image.addEventListener('load', () => URL.revokeObjectURL(url), { once: true });
+        image.addEventListener('error', () => URL.revokeObjectURL(url), { once: true });
+        image.src = url;
+      }, () => tile.setState(TileState.ERROR));
+    },
+  });
+
+  return new TileLayer({ source, extent });
+};
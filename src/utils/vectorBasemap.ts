@@ -0,0 +1,89 @@
+import { Coordinate } from 'ol/coordinate';
+import { Barrier, VectorBasemap, VectorPath } from '@/types/plan';
+import { barrierMaterial } from '@/utils/barrierMaterials';
+
+export const DEFAULT_WALL_THICKNESS = 0.2; // meters
+
+// Result of a drawing import dialog: the basemap, its metre extent and the barriers picked from it
+export interface VectorPlanImport {
+  basemap: VectorBasemap;
+  width: number; // meters
+  height: number; // meters
+  barriers: Barrier[];
+}
+
+export const getPathsExtent = (paths: VectorPath[]): [number, number, number, number] | null => {
+  let minX = Infinity;
+  let minY = Infinity;
+  let maxX = -Infinity;
+  let maxY = -Infinity;
+  paths.forEach((path) => path.coordinates.forEach(([x, y]) => {
+    minX = Math.min(minX, x);
+    minY = Math.min(minY, y);
+    maxX = Math.max(maxX, x);
+    maxY = Math.max(maxY, y);
+  }));
+  return Number.isFinite(minX) ? [minX, minY, maxX, maxY] : null;
+};
+
+export const transformPaths = (paths: VectorPath[], transform: (point: Coordinate) => Coordinate): VectorPath[] => {
+  return paths.map((path) => ({ ...path, coordinates: path.coordinates.map(transform) }));
+};
+
+export const countPathsByLayer = (paths: VectorPath[]): Record<string, number> => {
+  const counts: Record<string, number> = {};
+  paths.forEach((path) => {
+    counts[path.layer] = (counts[path.layer] ?? 0) + 1;
+  });
+  return counts;
+};
+
+// Turns a wall segment into a rectangle of the given thickness centred on the segment.
+const segmentToPolygon = (start: Coordinate, end: Coordinate, thickness: number): Coordinate[] | null => {
+  const dx = end[0] - start[0];
+  const dy = end[1] - start[1];
+  const length = Math.hypot(dx, dy);
+  if (length === 0) return null;
+  const nx = (-dy / length) * (thickness / 2);
+  const ny = (dx / length) * (thickness / 2);
+  return [
+    [start[0] + nx, start[1] + ny],
+    [end[0] + nx, end[1] + ny],
+    [end[0] - nx, end[1] - ny],
+    [start[0] - nx, start[1] - ny],
+    [start[0] + nx, start[1] + ny],
+  ];
+};
+
+// Paths are thickened segment by segment into walls. A closed path is usually a room outline, so it gets
+// walls along all of its edges and stays open inside; with `solidClosedPaths` it becomes one filled
+// barrier as drawn instead, for columns and shafts.
+export const pathsToBarriers = (
+  paths: VectorPath[],
+  wallThickness: number,
+  idPrefix: string,
+  solidClosedPaths = false,
+): Barrier[] => {
+  const barriers: Barrier[] = [];
+  paths
+    .filter((path) => path.coordinates.length >= 2)
+    .forEach((path) => {
+      const isClosed = path.closed && path.coordinates.length >= 3;
+      if (isClosed && solidClosedPaths) {
+        barriers.push({
+          id: `${idPrefix}-${barriers.length}`,
+          coordinates: [[...path.coordinates, path.coordinates[0]]],
+          ...barrierMaterial(),
+        });
+        return;
+      }
+      const points = isClosed ? [...path.coordinates, path.coordinates[0]] : path.coordinates;
+      for (let i = 0; i < points.length - 1; i++) {
+        const ring = segmentToPolygon(points[i], points[i + 1], wallThickness);
+        if (ring) {
+          barriers.push({ id: `${idPrefix}-${barriers.length}`, coordinates: [ring], ...barrierMaterial() });
+        }
+      }
+    });
+  return barriers;
+};
@@ -0,0 +1,23 @@
+import { analyzeInterFloor, InterFloorRequest, InterFloorWorkerMessage } from '@/utils/interFloor';
+
+// Runs the inter-floor analysis off the main thread. As with the signal grid, there is no cancel
+// message: the page terminates the worker when the result is no longer needed.
+
+const PROGRESS_STEPS = 50;
+
+const post = (message: InterFloorWorkerMessage) => self.postMessage(message);
+
+self.onmessage = (event: MessageEvent<InterFloorRequest>) => {
+  try {
+    let reported = 0;
+    const analysis = analyzeInterFloor(event.data, (done, total) => {
+      if (done === total || done - reported >= total / PROGRESS_STEPS) {
+        reported = done;
+        post({ type: 'progress', done, total });
+      }
+    });
+    post({ type: 'done', analysis });
+  } catch (error) {
+    post({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+  }
+};
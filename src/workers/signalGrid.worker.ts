@@ -0,0 +1,23 @@
+import { computeSignalGrid, SignalGridRequest, SignalGridWorkerMessage } from '@/utils/signalGrid';
+
+// Computes a signal grid off the main thread. There is no cancel message: the page terminates the
+// worker when the result is no longer needed.
+
+const PROGRESS_STEPS = 50;
+
+const post = (message: SignalGridWorkerMessage, transfer: Transferable[] = []) => self.postMessage(message, { transfer });
+
+self.onmessage = (event: MessageEvent<SignalGridRequest>) => {
+  try {
+    let reported = 0;
+    const grid = computeSignalGrid(event.data, (done, total) => {
+      if (done === total || done - reported >= total / PROGRESS_STEPS) {
+        reported = done;
+        post({ type: 'progress', done, total });
+      }
+    });
+    post({ type: 'done', grid }, [grid.rssi.buffer, grid.strongest.buffer, grid.heard.buffer]);
+  } catch (error) {
+    post({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+  }
+};
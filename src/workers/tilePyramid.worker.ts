@@ -0,0 +1,72 @@
+import {
+  getTileLevels,
+  isTiledImageSize,
+  TILE_SIZE,
+  TileWorkerMessage,
+  TileWorkerRequest,
+} from '@/utils/tilePyramid';
+
+// Reads the size of a plan image and cuts a large one into PNG tiles, level by level from full
+// resolution down to a single tile. Each level is resized from the previous one, so only two decoded
+// levels are held at a time.
+
+const BATCH_SIZE = 32;
+
+const post = (message: TileWorkerMessage) => self.postMessage(message);
+
+const slice = async ({ image, sizeOnly }: TileWorkerRequest) => {
+  const source = await createImageBitmap(image);
+  post({ type: 'size', width: source.width, height: source.height });
+  if (sizeOnly || !isTiledImageSize(source.width, source.height)) {
+    source.close();
+    post({ type: 'done' });
+    return;
+  }
+
+  const levels = getTileLevels(source.width, source.height).reverse();
+  const total = levels.reduce((sum, level) => sum + level.columns * level.rows, 0);
+  const canvas = new OffscreenCanvas(TILE_SIZE, TILE_SIZE);
+  const context = canvas.getContext('2d')!;
+  let done = 0;
+  let previous = source;
+
+  for (const level of levels) {
+    const bitmap = level.width === previous.width && level.height === previous.height
+      ? previous
+      : await createImageBitmap(previous, {
+        resizeWidth: level.width,
+        resizeHeight: level.height,
+        resizeQuality: 'high',
+      });
+    if (bitmap !== previous) previous.close();
+    previous = bitmap;
+
+    let batch: Extract<TileWorkerMessage, { type: 'tiles' }>['tiles'] = [];
+    for (let y = 0; y < level.rows; y++) {
+      for (let x = 0; x < level.columns; x++) {
+        // Edge tiles keep the full size with a transparent remainder, so all tiles scale alike
+        const width = Math.min(TILE_SIZE, level.width - x * TILE_SIZE);
+        const height = Math.min(TILE_SIZE, level.height - y * TILE_SIZE);
+        context.clearRect(0, 0, TILE_SIZE, TILE_SIZE);
+        context.drawImage(bitmap, x * TILE_SIZE, y * TILE_SIZE, width, height, 0, 0, width, height);
+        batch.push({ z: level.z, x, y, blob: await canvas.convertToBlob({ type: 'image/png' }) });
+        done++;
+        if (batch.length === BATCH_SIZE) {
+          post({ type: 'tiles', tiles: batch, done, total });
+          batch = [];
+        }
+      }
+    }
+    if (batch.length > 0) {
+      post({ type: 'tiles', tiles: batch, done, total });
+    }
+  }
+  previous.close();
+  post({ type: 'done' });
+};
+
+self.onmessage = (event: MessageEvent<TileWorkerRequest>) => {
+  slice(event.data).catch((error) => {
+    post({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+  });
+};